@@ -0,0 +1,68 @@
+import type { Post } from "./build.js";
+
+export const ARCHIVE_DIR = "archive";
+
+export interface ArchiveMonth {
+  year: number;
+  // 1-12
+  month: number;
+  posts: Post[];
+}
+
+export interface ArchiveYear {
+  year: number;
+  months: ArchiveMonth[];
+  posts: Post[];
+}
+
+// Output path of a year's or month's archive page, e.g. archive/2024/01/index.html
+export function archivePath(year: number, month?: number): string {
+  if (month === undefined) return `${ARCHIVE_DIR}/${year}/index.html`;
+  return `${ARCHIVE_DIR}/${year}/${String(month).padStart(2, "0")}/index.html`;
+}
+
+// Expects posts already filtered and sorted by filterPostsForIndex. Years and
+// months come out newest first. Frontmatter dates are parsed as UTC, so they
+// are grouped in UTC too.
+export function groupPostsByMonth(posts: Post[]): ArchiveYear[] {
+  const years = new Map<number, ArchiveYear>();
+
+  for (const post of posts) {
+    const date = new Date(post.meta.date);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+
+    let archive = years.get(year);
+    if (!archive) {
+      archive = { year, months: [], posts: [] };
+      years.set(year, archive);
+    }
+    archive.posts.push(post);
+
+    let archiveMonth = archive.months.find((entry) => entry.month === month);
+    if (!archiveMonth) {
+      archiveMonth = { year, month, posts: [] };
+      archive.months.push(archiveMonth);
+    }
+    archiveMonth.posts.push(post);
+  }
+
+  const sorted = [...years.values()].sort((a, b) => b.year - a.year);
+  for (const archive of sorted) {
+    archive.months.sort((a, b) => b.month - a.month);
+  }
+  return sorted;
+}
+
+// e.g. "January 2024" in en-US
+export function formatMonth(
+  year: number,
+  month: number,
+  locale: string
+): string {
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString(locale, {
+    year: "numeric",
+    month: "long",
+    timeZone: "UTC",
+  });
+}
@@ -0,0 +1,174 @@
+import { createHash } from "crypto";
+import path from "path";
+import type { FileSystem } from "./filesystem.js";
+import { addImageSizes, imageSize, imageSources } from "./images.js";
+import type { ImageSize } from "./images.js";
+import { escapeHtml, htmlToText } from "./template.js";
+
+// A folder post (posts/my-post/index.md) can reference files next to it,
+// e.g. ![Cat](cat.png). Those files are copied to assets/<slug>/ with a
+// content hash in their name, so browsers can cache them forever, and the
+// post's URLs are rewritten to match when a page is rendered.
+
+export const ASSETS_DIR = "assets";
+
+export interface PostAsset {
+  // Path within the post's folder, e.g. "images/cat.png"
+  path: string;
+  // Where the file is read from
+  source: string;
+  // Fingerprinted path, relative to the output directory
+  output: string;
+  // Set for images whose size could be read
+  width?: number;
+  height?: number;
+}
+
+// An image a flat post shows from the output directory
+export interface OutputImage extends ImageSize {
+  // Relative to the output directory, e.g. "images/cat.png"
+  path: string;
+}
+
+export function contentHash(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex").slice(0, 8);
+}
+
+// "images/cat.png" → "images/cat.1a2b3c4d.png"
+export function fingerprint(file: string, content: string | Buffer): string {
+  const ext = path.posix.extname(file);
+  return `${file.slice(0, file.length - ext.length)}.${contentHash(content)}${ext}`;
+}
+
+// URLs that are relative to the page they appear on: not absolute, not
+// root-relative and not just a #fragment
+export function isRelativeUrl(url: string): boolean {
+  return url !== "" && !/^([a-z][a-z\d+.-]*:|\/|#)/i.test(url);
+}
+
+// The file a relative URL points to inside a post's folder, without any
+// ?query or #fragment. Undefined for other URLs and paths leaving the folder.
+export function localPath(url: string): string | undefined {
+  if (!isRelativeUrl(url)) return undefined;
+  let file = url.replace(/[?#].*$/, "");
+  try {
+    file = decodeURIComponent(file);
+  } catch {
+    // Keep malformed escapes as written
+  }
+  const normalized = path.posix.normalize(file);
+  if (normalized === "." || normalized.startsWith("../")) return undefined;
+  return normalized;
+}
+
+const URL_ATTRIBUTE = /(\s(?:src|href)\s*=\s*)(?:"([^"]*)"|'([^']*)')/gi;
+
+// Calls `rewrite` with every src and href value in `html`, with entities
+// decoded. It returns the new URL, or undefined to keep the old one.
+export function rewriteUrls(
+  html: string,
+  rewrite: (url: string) => string | undefined
+): string {
+  return html.replace(
+    URL_ATTRIBUTE,
+    (match, prefix: string, double?: string, single?: string) => {
+      const url = rewrite(htmlToText(double ?? single ?? ""));
+      return url === undefined ? match : `${prefix}"${escapeHtml(url)}"`;
+    }
+  );
+}
+
+// Local paths referenced by src and href attributes, in order of appearance
+export function referencedPaths(html: string): string[] {
+  const paths = new Set<string>();
+  rewriteUrls(html, (url) => {
+    const file = localPath(url);
+    if (file) paths.add(file);
+    return undefined;
+  });
+  return [...paths];
+}
+
+// Points a post's URLs at the right files from a page `root` away from the
+// output directory (e.g. "../" on tag pages, or the base URL in feeds):
+// assets get their fingerprinted path and other relative URLs are rebased.
+export function resolvePostUrls(
+  html: string,
+  assets: PostAsset[] = [],
+  root: string = ""
+): string {
+  const outputs = new Map(assets.map((asset) => [asset.path, asset.output]));
+  return rewriteUrls(html, (url) => {
+    const file = localPath(url);
+    const output = file && outputs.get(file);
+    if (output) return root + output + (url.match(/[?#].*$/)?.[0] ?? "");
+    return root && isRelativeUrl(url) ? root + url : undefined;
+  });
+}
+
+// Adds width and height to the post's <img> tags showing its own images, or
+// images from the output directory
+export function addAssetSizes(
+  html: string,
+  assets: (PostAsset | OutputImage)[] = []
+): string {
+  const byPath = new Map(assets.map((asset) => [asset.path, asset]));
+  return addImageSizes(html, (src) => {
+    const file = localPath(src);
+    const asset = file ? byPath.get(file) : undefined;
+    return asset?.width && asset.height
+      ? { width: asset.width, height: asset.height }
+      : undefined;
+  });
+}
+
+// Reads the files in a post's folder that `paths` refer to. Paths to files
+// that don't exist are left alone, for the link checker to report.
+export async function collectAssets(
+  dir: string,
+  slug: string,
+  paths: string[],
+  files: FileSystem
+): Promise<PostAsset[]> {
+  const assets: PostAsset[] = [];
+  for (const file of new Set(paths)) {
+    const source = path.join(dir, file);
+    let content: Buffer;
+    try {
+      content = await files.readBuffer(source);
+    } catch {
+      // Missing, or a directory
+      continue;
+    }
+    assets.push({
+      path: file,
+      source,
+      output: path.posix.join(ASSETS_DIR, slug, fingerprint(file, content)),
+      ...imageSize(content),
+    });
+  }
+  return assets;
+}
+
+// A flat post (posts/my-post.md) has no folder of its own, so its relative
+// image URLs point into the output directory, e.g. at images put in docs/ by
+// hand. Reads their sizes, skipping files that are missing or not images.
+export async function outputImages(
+  outputDir: string,
+  html: string,
+  files: FileSystem
+): Promise<OutputImage[]> {
+  const images: OutputImage[] = [];
+  for (const file of new Set(imageSources(html).map(localPath))) {
+    if (!file) continue;
+    let content: Buffer;
+    try {
+      content = await files.readBuffer(path.join(outputDir, file));
+    } catch {
+      continue;
+    }
+    const size = imageSize(content);
+    if (size) images.push({ path: file, ...size });
+  }
+  return images;
+}
@@ -1,14 +1,118 @@
-import fs from "fs/promises";
 import path from "path";
 import matter from "gray-matter";
-import { marked } from "marked";
-import { fileURLToPath } from "url";
+import { Marked } from "marked";
+import {
+  emptyCache,
+  hashBuildCode,
+  hashContent,
+  loadCache,
+  saveCache,
+} from "./cache.js";
+import type { BuildCache, CachedPost } from "./cache.js";
+import { loadOutputManifest, saveOutputManifest, staleFiles } from "./clean.js";
+import { DEFAULT_CONFIG, loadConfig } from "./config.js";
+import type { SiteConfig } from "./config.js";
+import { nodeFileSystem } from "./filesystem.js";
+import type { FileSystem } from "./filesystem.js";
+import {
+  countWords,
+  firstParagraph,
+  readingTime,
+  summaryHtml,
+  textBeforeMore,
+} from "./excerpt.js";
+import { highlightExtension } from "./highlight.js";
+import { imageExtension } from "./images.js";
+import { checkLinks, formatLinkReport, LinkCheckError } from "./links.js";
+import type { LinkProblem } from "./links.js";
+import {
+  defaultNotFoundPage,
+  navLinks,
+  NOT_FOUND_PAGE,
+  notFoundRoot,
+} from "./pages.js";
+import type { NavLink, Page, PageMeta } from "./pages.js";
+import { buildSearchIndex, SEARCH_INDEX_FILE } from "./search.js";
+import {
+  applyLoadPost,
+  applyRenderPost,
+  loadPlugins,
+  markdownExtensions,
+  pluginTemplateData,
+  runBuildEnd,
+} from "./plugins.js";
+import type { BlogPlugin } from "./plugins.js";
+import { postSeo, renderHead, siteHead } from "./seo.js";
+import {
+  newestLastmod,
+  postLastmod,
+  renderRobots,
+  renderSitemap,
+  robotsNote,
+  ROBOTS_FILE,
+  SITEMAP_FILE,
+} from "./sitemap.js";
+import type { SitemapEntry } from "./sitemap.js";
+import { buildToc, headingExtension } from "./toc.js";
+import type { Heading, TocEntry } from "./toc.js";
+import {
+  EMPTY_LIBRARY,
+  loadTemplateLibrary,
+  renderTemplate,
+} from "./template.js";
+import type { TemplateLibrary } from "./template.js";
+import { FEED_FILES, renderAtom, renderJsonFeed, renderRss } from "./feeds.js";
+import type { FeedOptions } from "./feeds.js";
+import { archivePath, formatMonth, groupPostsByMonth } from "./archive.js";
+import {
+  addAssetSizes,
+  collectAssets,
+  outputImages,
+  fingerprint,
+  localPath,
+  referencedPaths,
+  resolvePostUrls,
+} from "./assets.js";
+import type { OutputImage, PostAsset } from "./assets.js";
+import type { ArchiveYear } from "./archive.js";
+import { paginate, pagePath, paginationLinks } from "./pagination.js";
+import { adjacentPosts, relatedPosts } from "./related.js";
+import { findSeries, groupPostsBySeries, SERIES_DIR } from "./series.js";
+import type { SeriesGroup } from "./series.js";
+import { groupPostsByTag, tagSlug, tagWeight } from "./tags.js";
+import type { TagGroup } from "./tags.js";
+import {
+  formatDiagnostic,
+  hasErrors,
+  validateFrontmatter,
+  validatePageFrontmatter,
+  validateSlugs,
+  ValidationError,
+  yamlErrorDiagnostic,
+} from "./validate.js";
+import type { Diagnostic, PostSource } from "./validate.js";
 
 export interface PostMeta {
   title: string;
   date: Date;
+  // Date of the last significant edit, for sitemap.xml
+  updated?: Date;
   tags?: string[];
   draft?: boolean;
+  // Plain-text excerpt, used when the post has no <!--more--> marker
+  summary?: string;
+  // Set to false to leave out the table of contents
+  toc?: boolean;
+  // Name of the multi-part series the post belongs to
+  series?: string;
+  // Position within the series; without it, parts are ordered by date
+  seriesOrder?: number;
+  // Link preview and search engine metadata; see seo.ts
+  description?: string;
+  image?: string;
+  author?: string;
+  // Absolute URL of the original, for posts published elsewhere first
+  canonical?: string;
 }
 
 export interface Post {
@@ -16,26 +120,212 @@ export interface Post {
   meta: PostMeta;
   content: string;
   html: string;
+  // HTML shown on listings and in excerpt feeds
+  excerpt: string;
+  wordCount: number;
+  // Estimated minutes to read
+  readingTime: number;
+  // Nested headings; empty when the post sets `toc: false`
+  toc: TocEntry[];
+  // Files a folder post references, found again on every build
+  assets?: PostAsset[];
+  // Sized images a flat post shows from the output directory, found again on
+  // every build
+  images?: OutputImage[];
 }
 
-const POSTS_DIR = "posts";
-const OUTPUT_DIR = "docs";
-const TEMPLATES_DIR = "templates";
+// "production" leaves drafts and future-dated posts out of the output;
+// "preview" builds them too, marked noindex and with a banner
+export type BuildMode = "production" | "preview";
 
-async function readTemplate(name: string): Promise<string> {
-  return fs.readFile(path.join(TEMPLATES_DIR, `${name}.html`), "utf-8");
+export const BUILD_MODES: BuildMode[] = ["production", "preview"];
+
+export interface Logger {
+  log(message: string): void;
+  warn(message: string): void;
+}
+
+export interface BuildOptions {
+  mode?: BuildMode;
+  // Ignore the cache manifest and re-render every post
+  force?: boolean;
+  // Report stale output files instead of deleting them
+  dryRun?: boolean;
+  // Fail the build when the generated pages have broken links
+  strict?: boolean;
+  // Defaults to the contents of blog.config.json
+  config?: SiteConfig;
+  // Override the directories from the config
+  postsDir?: string;
+  pagesDir?: string;
+  outputDir?: string;
+  templatesDir?: string;
+  // Where every file is read from and written to, e.g. an in-memory one
+  fs?: FileSystem;
+  logger?: Logger;
+  // Run after the plugins listed in the config
+  plugins?: BlogPlugin[];
+}
+
+export interface BuildResult {
+  mode: BuildMode;
+  // Files written by this build, relative to the output directory
+  pages: string[];
+  // Post pages that were up to date and left alone
+  unchanged: string[];
+  // Stale files from earlier builds that were deleted (or would be, in a
+  // dry run)
+  removed: string[];
+  warnings: Diagnostic[];
+  // Broken links and missing assets in the generated pages
+  brokenLinks: LinkProblem[];
+  // Fingerprinted name of styles.css, relative to the output directory
+  stylesheet: string;
+}
+
+// Everything page rendering needs besides the page's own data
+export interface RenderContext {
+  site: SiteConfig;
+  library: TemplateLibrary;
+  fs: FileSystem;
+  // Collects the path of every file written, relative to the output directory
+  pages: string[];
+  // Posts that pages may link to, ordered like filterPostsForIndex
+  posts: Post[];
+  plugins: BlogPlugin[];
+  // Fingerprinted name of styles.css, relative to the output directory
+  stylesheet: string;
+  // Links to standalone pages for the site header
+  nav: NavLink[];
+}
+
+const DEFAULT_CONTEXT: RenderContext = {
+  site: DEFAULT_CONFIG,
+  library: EMPTY_LIBRARY,
+  fs: nodeFileSystem,
+  pages: [],
+  posts: [],
+  plugins: [],
+  stylesheet: "styles.css",
+  nav: [],
+};
+
+const markdownParser = new Marked(highlightExtension, imageExtension);
+
+const TAGS_DIR = "tags";
+const STYLESHEET = "styles.css";
+// The Markdown file of a folder post, e.g. posts/my-post/index.md
+const POST_INDEX = "index.md";
+const CACHE_FILE = "build-manifest.json";
+// Pages written to the top of the output directory, besides post pages
+const RESERVED_SLUGS = ["index", "search"];
+
+async function readTemplate(
+  templatesDir: string,
+  name: string,
+  files: FileSystem = nodeFileSystem
+): Promise<string> {
+  return files.readFile(path.join(templatesDir, `${name}.html`));
+}
+
+async function writePage(
+  context: RenderContext,
+  outputDir: string,
+  file: string,
+  content: string
+): Promise<void> {
+  const output = path.join(outputDir, file);
+  await context.fs.mkdir(path.dirname(output));
+  await context.fs.writeFile(output, content);
+  context.pages.push(file.split(path.sep).join("/"));
+}
+
+// Without options, gray-matter caches results by content and hands out the
+// same `data` object for identical files. Plugins may change meta in place,
+// so every parse gets its own.
+function parseFrontmatter(fileContent: string) {
+  return matter(fileContent, {});
 }
 
 export async function parsePost(
   filename: string,
-  fileContent: string
+  fileContent: string,
+  plugins: BlogPlugin[] = []
 ): Promise<Post | null> {
   if (!filename.endsWith(".md")) return null;
-  const { data, content: markdown } = matter(fileContent);
-  const meta = data as PostMeta;
-  const slug = filename.replace(".md", "");
-  const html = await marked(markdown);
-  return { slug, meta, content: markdown, html };
+  const { data, content } = parseFrontmatter(fileContent);
+  // Folder posts are named after their folder: my-post/index.md → my-post
+  const name =
+    path.basename(filename) === POST_INDEX ? path.dirname(filename) : filename;
+  const {
+    slug,
+    meta,
+    content: markdown,
+  } = await applyLoadPost(plugins, {
+    slug: name.replace(".md", ""),
+    meta: data as PostMeta,
+    content,
+  });
+  // Heading ids must be unique per post, so each post gets its own parser.
+  // Plugin extensions come last, so their renderers take precedence.
+  const extensions = markdownExtensions(plugins);
+  const headings: Heading[] = [];
+  const html = await new Marked(
+    highlightExtension,
+    imageExtension,
+    headingExtension(headings),
+    ...extensions
+  ).parse(markdown);
+  const excerptParser =
+    extensions.length > 0
+      ? new Marked(highlightExtension, imageExtension, ...extensions)
+      : markdownParser;
+  const wordCount = countWords(html);
+  return {
+    slug,
+    meta,
+    content: markdown,
+    html,
+    excerpt: await postExcerpt(excerptParser, markdown, html, meta.summary),
+    wordCount,
+    readingTime: readingTime(wordCount),
+    toc: meta.toc === false ? [] : buildToc(headings),
+  };
+}
+
+export async function parsePage(
+  filename: string,
+  fileContent: string,
+  plugins: BlogPlugin[] = []
+): Promise<Page> {
+  const { data, content } = parseFrontmatter(fileContent);
+  const html = await new Marked(
+    highlightExtension,
+    imageExtension,
+    headingExtension([]),
+    ...markdownExtensions(plugins)
+  ).parse(content);
+  return {
+    slug: path.basename(filename, ".md"),
+    meta: data as PageMeta,
+    html,
+  };
+}
+
+// Prefers the text above <!--more-->, then the summary field, then the
+// first paragraph
+async function postExcerpt(
+  parser: Marked,
+  markdown: string,
+  html: string,
+  summary: unknown
+): Promise<string> {
+  const beforeMore = textBeforeMore(markdown);
+  if (beforeMore !== undefined) return parser.parse(beforeMore);
+  if (typeof summary === "string" && summary.trim()) {
+    return summaryHtml(summary);
+  }
+  return firstParagraph(html);
 }
 
 export function filterPostsForIndex(posts: Post[]): Post[] {
@@ -47,99 +337,1022 @@ export function filterPostsForIndex(posts: Post[]): Post[] {
     );
 }
 
-async function getPosts(): Promise<Post[]> {
-  const files = await fs.readdir(POSTS_DIR);
+export function isScheduled(post: Post, now: Date = new Date()): boolean {
+  return new Date(post.meta.date).getTime() > now.getTime();
+}
+
+// Returns the posts that get their own page in the given mode
+export function filterPostsForMode(
+  posts: Post[],
+  mode: BuildMode,
+  now: Date = new Date()
+): Post[] {
+  if (mode === "preview") return posts;
+  return posts.filter((post) => !post.meta.draft && !isScheduled(post, now));
+}
+
+// Reuses parsed posts (and their diagnostics) from `cache` when the source
+// hash matches, and records every current post in `nextCache`
+async function getPosts(
+  postsDir: string,
+  outputDir: string,
+  cache: BuildCache,
+  nextCache: BuildCache,
+  files: FileSystem,
+  logger: Logger,
+  plugins: BlogPlugin[]
+): Promise<{ posts: Post[]; warnings: Diagnostic[] }> {
+  const names = await files.readdir(postsDir);
   const posts: Post[] = [];
+  const diagnostics: Diagnostic[] = [];
+  const sources: PostSource[] = [];
+
+  for (const name of names) {
+    let file = name;
+    if (!name.endsWith(".md")) {
+      file = `${name}/${POST_INDEX}`;
+      if (!(await files.exists(path.join(postsDir, file)))) continue;
+    }
+    const content = await files.readFile(path.join(postsDir, file));
+    const sourceHash = hashContent(content);
+
+    let entry = cache.posts[file];
+    if (!entry || entry.sourceHash !== sourceHash) {
+      let post: Post | null;
+      try {
+        post = await parsePost(file, content, plugins);
+      } catch (error) {
+        const diagnostic = yamlErrorDiagnostic(
+          path.join(postsDir, file),
+          error
+        );
+        if (!diagnostic) throw error;
+        diagnostics.push(diagnostic);
+        continue;
+      }
+      if (!post) continue;
+      entry = {
+        sourceHash,
+        post,
+        // Checks the meta plugins returned, not the raw frontmatter
+        diagnostics: validateFrontmatter(
+          path.join(postsDir, file),
+          content,
+          post.meta as unknown as Record<string, unknown>
+        ),
+      };
+    }
+
+    // Assets can change without the post changing, so they are never cached
+    if (file !== name) {
+      const { post } = entry;
+      // Validation reports an image that isn't a string below
+      const image =
+        typeof post.meta.image === "string" && localPath(post.meta.image);
+      post.assets = await collectAssets(
+        path.join(postsDir, name),
+        post.slug,
+        [...referencedPaths(post.html), ...(image ? [image] : [])],
+        files
+      );
+    } else {
+      entry.post.images = await outputImages(outputDir, entry.post.html, files);
+    }
+
+    nextCache.posts[file] = entry;
+    diagnostics.push(...entry.diagnostics);
+    posts.push(entry.post);
+    sources.push({
+      file: path.join(postsDir, file),
+      fileContent: content,
+      data: entry.post.meta as unknown as Record<string, unknown>,
+    });
+  }
+  diagnostics.push(...validateSlugs(sources));
 
-  for (const file of files) {
-    const content = await fs.readFile(path.join(POSTS_DIR, file), "utf-8");
-    const post = await parsePost(file, content);
-    if (post) posts.push(post);
+  // posts/a.md and posts/a/index.md would both be written to a.html, ...
+  const slugCounts = new Map<string, number>();
+  for (const post of posts) {
+    slugCounts.set(post.slug, (slugCounts.get(post.slug) ?? 0) + 1);
   }
+  // and index.html, search.html and 404.html would overwrite a post's page
+  const reserved = [...RESERVED_SLUGS, NOT_FOUND_PAGE];
+  posts.forEach((post, i) => {
+    const report = (message: string) =>
+      diagnostics.push({
+        file: sources[i].file,
+        field: "slug",
+        line: 1,
+        severity: "error",
+        message,
+      });
+    if (reserved.includes(post.slug)) {
+      report(`${post.slug}.html is reserved for the site's own pages`);
+    } else if (slugCounts.get(post.slug)! > 1) {
+      report(`${post.slug}.html is already used by another post`);
+    }
+  });
+
+  const warnings = diagnostics.filter(
+    (diagnostic) => diagnostic.severity === "warning"
+  );
+  for (const warning of warnings) logger.warn(formatDiagnostic(warning));
+  if (hasErrors(diagnostics)) throw new ValidationError(diagnostics);
 
-  return posts.sort(
+  posts.sort(
     (a, b) => new Date(b.meta.date).getTime() - new Date(a.meta.date).getTime()
   );
+  return { posts, warnings };
+}
+
+// Reads and validates every post, drafts included, newest first, without
+// building anything
+export async function loadPosts(
+  site: SiteConfig,
+  files: FileSystem = nodeFileSystem,
+  logger: Logger = console
+): Promise<Post[]> {
+  const { posts } = await getPosts(
+    site.postsDir,
+    site.outputDir,
+    emptyCache(""),
+    emptyCache(""),
+    files,
+    logger,
+    await loadPlugins(site.plugins)
+  );
+  return posts;
 }
 
-function formatDate(date: Date): string {
-  return new Date(date).toLocaleDateString("en-US", {
+// Reads the optional pages directory. Pages are few, so unlike posts they
+// are parsed on every build. `taken` holds the slugs pages can't use.
+async function getPages(
+  site: SiteConfig,
+  taken: Set<string>,
+  files: FileSystem,
+  logger: Logger,
+  plugins: BlogPlugin[]
+): Promise<{ pages: Page[]; warnings: Diagnostic[] }> {
+  if (!(await files.exists(site.pagesDir))) return { pages: [], warnings: [] };
+
+  const templates = new Set(
+    (await files.readdir(site.templatesDir))
+      .filter((name) => name.endsWith(".html"))
+      .map((name) => path.basename(name, ".html"))
+  );
+  const pages: Page[] = [];
+  const diagnostics: Diagnostic[] = [];
+
+  for (const name of (await files.readdir(site.pagesDir)).sort()) {
+    if (!name.endsWith(".md")) continue;
+    const file = path.join(site.pagesDir, name);
+    const content = await files.readFile(file);
+    let page: Page;
+    try {
+      page = await parsePage(name, content, plugins);
+    } catch (error) {
+      const diagnostic = yamlErrorDiagnostic(file, error);
+      if (!diagnostic) throw error;
+      diagnostics.push(diagnostic);
+      continue;
+    }
+    diagnostics.push(
+      ...validatePageFrontmatter(
+        file,
+        content,
+        page.meta as unknown as Record<string, unknown>,
+        templates
+      )
+    );
+    if (taken.has(page.slug)) {
+      diagnostics.push({
+        file,
+        field: "slug",
+        line: 1,
+        severity: "error",
+        message: `${page.slug}.html is already used by a post or another page`,
+      });
+    }
+    pages.push(page);
+  }
+
+  const warnings = diagnostics.filter(
+    (diagnostic) => diagnostic.severity === "warning"
+  );
+  for (const warning of warnings) logger.warn(formatDiagnostic(warning));
+  if (hasErrors(diagnostics)) throw new ValidationError(diagnostics);
+
+  return { pages, warnings };
+}
+
+// Renders only the posts whose source or templates changed since the cached
+// build, or whose output file has gone missing. Returns the pages it skipped.
+async function buildChangedPosts(
+  entries: CachedPost[],
+  template: string,
+  outputDir: string,
+  context: RenderContext,
+  force: boolean
+): Promise<string[]> {
+  const unchanged: string[] = [];
+  const templateHash = hashContent(
+    template,
+    JSON.stringify(context.site),
+    JSON.stringify(context.library),
+    JSON.stringify(pluginTemplateData(context.plugins)),
+    context.stylesheet,
+    JSON.stringify(context.nav)
+  );
+
+  await Promise.all(
+    entries.map(async (entry) => {
+      // Scheduled posts lose their banner once their date passes, and
+      // links to other posts change as posts are added or retitled
+      const renderHash = hashContent(
+        entry.sourceHash,
+        templateHash,
+        String(isScheduled(entry.post)),
+        JSON.stringify(entry.post.assets ?? []),
+        JSON.stringify(entry.post.images ?? []),
+        JSON.stringify(postNavigation(entry.post, context))
+      );
+      const page = `${entry.post.slug}.html`;
+      if (
+        !force &&
+        entry.renderHash === renderHash &&
+        (await context.fs.exists(path.join(outputDir, page)))
+      ) {
+        unchanged.push(page);
+        return;
+      }
+
+      await buildPost(entry.post, template, outputDir, context);
+      entry.renderHash = renderHash;
+    })
+  );
+
+  return unchanged.sort();
+}
+
+function formatDate(date: Date, locale: string): string {
+  return new Date(date).toLocaleDateString(locale, {
     year: "numeric",
     month: "long",
     day: "numeric",
   });
 }
 
+function isoDate(date: Date): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function tagLinks(tags: string[] = []): { name: string; slug: string }[] {
+  return tags
+    .map((name) => ({ name, slug: tagSlug(name) }))
+    .filter((tag) => tag.slug);
+}
+
+// Part of a post's HTML, with its images sized and its URLs resolved for a
+// page `root` away from the output directory
+function postHtml(html: string, post: Post, root: string = ""): string {
+  const sized = addAssetSizes(html, [
+    ...(post.assets ?? []),
+    ...(post.images ?? []),
+  ]);
+  return resolvePostUrls(sized, post.assets, root);
+}
+
+// Template data for a post on a page `root` away from the output directory
+function postSummary(post: Post, site: SiteConfig, root: string = "") {
+  return {
+    slug: post.slug,
+    url: `${post.slug}.html`,
+    title: post.meta.title,
+    date: formatDate(post.meta.date, site.locale),
+    datetime: isoDate(post.meta.date),
+    tags: tagLinks(post.meta.tags),
+    draft: Boolean(post.meta.draft),
+    scheduled: isScheduled(post),
+    excerpt: post.excerpt && postHtml(post.excerpt, post, root),
+    wordCount: post.wordCount,
+    readingTime: post.readingTime,
+    toc: post.toc,
+  };
+}
+
+// Every page gets the site config as `site` and `root`, the relative path
+// from the page back to the site root, e.g. "../" for pages under tags/.
+// `head` holds extra <head> tags; posts replace it with their SEO metadata.
+// `nav` links the standalone pages that asked to be in the header.
+// Plugin variables can't override the page's own data.
+function pageData(
+  context: RenderContext,
+  root: string,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  return {
+    site: context.site,
+    root,
+    head: siteHead(context.site),
+    stylesheet: context.stylesheet,
+    nav: context.nav,
+    ...pluginTemplateData(context.plugins),
+    ...data,
+  };
+}
+
+function postLink(post: Post, site: SiteConfig) {
+  return {
+    url: `${post.slug}.html`,
+    title: post.meta.title,
+    date: formatDate(post.meta.date, site.locale),
+    datetime: isoDate(post.meta.date),
+  };
+}
+
+// Older/newer neighbours, posts sharing tags and the post's series
+function postNavigation(post: Post, context: RenderContext) {
+  const { site, posts } = context;
+  const { prev, next } = adjacentPosts(post, posts);
+  const series = findSeries(post, posts);
+  return {
+    prev: prev ? postLink(prev, site) : undefined,
+    next: next ? postLink(next, site) : undefined,
+    related: relatedPosts(post, posts, site.related.limit).map((related) =>
+      postLink(related, site)
+    ),
+    series: series && {
+      name: series.name,
+      url: `${SERIES_DIR}/${series.slug}.html`,
+      part: series.posts.indexOf(post) + 1,
+      total: series.posts.length,
+      parts: series.posts.map((part) => ({
+        ...postLink(part, site),
+        current: part === post,
+      })),
+    },
+  };
+}
+
 export async function buildPost(
   post: Post,
   template: string,
-  outputDir: string = OUTPUT_DIR
+  outputDir: string = DEFAULT_CONFIG.outputDir,
+  context: RenderContext = DEFAULT_CONTEXT
 ): Promise<void> {
-  const html = template
-    .replaceAll("{{title}}", post.meta.title)
-    .replaceAll("{{date}}", formatDate(post.meta.date))
-    .replaceAll("{{content}}", post.html);
+  const summary = postSummary(post, context.site);
+  const rendered = renderTemplate(
+    template,
+    pageData(context, "", {
+      ...summary,
+      ...postNavigation(post, context),
+      content: postHtml(post.html, post),
+      head: renderHead(postSeo(post, context.site)),
+      // Only drafts and scheduled posts in preview builds get this far
+      noindex: summary.draft || summary.scheduled,
+    }),
+    context.library,
+    "post"
+  );
+  const html = await applyRenderPost(context.plugins, rendered, post);
+
+  await writePage(context, outputDir, `${post.slug}.html`, html);
+}
 
-  await fs.writeFile(path.join(outputDir, `${post.slug}.html`), html);
+// The `root` for a page at `file`, relative to the output directory
+function relativeRoot(file: string): string {
+  return "../".repeat(file.split("/").length - 1);
 }
 
-async function buildIndex(posts: Post[], template: string): Promise<void> {
-  const postList = posts
-    .map(
-      (post) => `
-    <article>
-      <h2><a href="${post.slug}.html">${post.meta.title}</a></h2>
-      <time datetime="${post.meta.date}">${formatDate(post.meta.date)}</time>
-    </article>`
-    )
-    .join("\n");
+// Writes index.html, page/2.html, ... with prev/next links and links to the
+// yearly archives
+async function buildIndex(
+  posts: Post[],
+  template: string,
+  outputDir: string,
+  context: RenderContext
+): Promise<void> {
+  const pages = paginate(posts, context.site.pagination.perPage);
+  const archives = groupPostsByMonth(posts).map((archive) => ({
+    year: archive.year,
+    url: archivePath(archive.year),
+    count: archive.posts.length,
+  }));
 
-  const html = template.replace("{{posts}}", postList);
-  await fs.writeFile(path.join(OUTPUT_DIR, "index.html"), html);
+  await Promise.all(
+    pages.map((pagePosts, index) => {
+      const page = index + 1;
+      const file = pagePath(page);
+      const html = renderTemplate(
+        template,
+        pageData(context, relativeRoot(file), {
+          title: page > 1 ? `Page ${page}` : undefined,
+          posts: pagePosts.map((post) =>
+            postSummary(post, context.site, relativeRoot(file))
+          ),
+          // Only set when there is more than one page
+          pagination:
+            pages.length > 1 ? paginationLinks(page, pages.length) : null,
+          archives,
+        }),
+        context.library,
+        "index"
+      );
+      return writePage(context, outputDir, file, html);
+    })
+  );
 }
 
-async function copyStyles(): Promise<void> {
-  try {
-    const styles = await fs.readFile(
-      path.join(TEMPLATES_DIR, "styles.css"),
-      "utf-8"
+export async function buildArchivePages(
+  years: ArchiveYear[],
+  template: string,
+  outputDir: string = DEFAULT_CONFIG.outputDir,
+  context: RenderContext = DEFAULT_CONTEXT
+): Promise<void> {
+  const { locale } = context.site;
+  const render = (file: string, data: Record<string, unknown>) =>
+    writePage(
+      context,
+      outputDir,
+      file,
+      renderTemplate(
+        template,
+        pageData(context, relativeRoot(file), data),
+        context.library,
+        "archive"
+      )
     );
-    await fs.writeFile(path.join(OUTPUT_DIR, "styles.css"), styles);
+
+  await Promise.all(
+    years.flatMap((archive) => [
+      render(archivePath(archive.year), {
+        title: `Posts from ${archive.year}`,
+        year: archive.year,
+        months: archive.months.map((month) => ({
+          name: formatMonth(month.year, month.month, locale),
+          url: archivePath(month.year, month.month),
+          count: month.posts.length,
+        })),
+        posts: archive.posts.map((post) =>
+          postSummary(
+            post,
+            context.site,
+            relativeRoot(archivePath(archive.year))
+          )
+        ),
+      }),
+      ...archive.months.map((month) =>
+        render(archivePath(month.year, month.month), {
+          title: `Posts from ${formatMonth(month.year, month.month, locale)}`,
+          year: month.year,
+          month: month.month,
+          posts: month.posts.map((post) =>
+            postSummary(
+              post,
+              context.site,
+              relativeRoot(archivePath(month.year, month.month))
+            )
+          ),
+        })
+      ),
+    ])
+  );
+}
+
+export async function buildTagPages(
+  tags: TagGroup[],
+  template: string,
+  outputDir: string = DEFAULT_CONFIG.outputDir,
+  context: RenderContext = DEFAULT_CONTEXT
+): Promise<void> {
+  await Promise.all(
+    tags.map((tag) => {
+      const html = renderTemplate(
+        template,
+        pageData(context, "../", {
+          title: `Posts tagged "${tag.name}"`,
+          tag: tag.name,
+          count: tag.posts.length,
+          posts: tag.posts.map((post) =>
+            postSummary(post, context.site, "../")
+          ),
+        }),
+        context.library,
+        "tag"
+      );
+      return writePage(
+        context,
+        outputDir,
+        path.join(TAGS_DIR, `${tag.slug}.html`),
+        html
+      );
+    })
+  );
+}
+
+export async function buildTagIndex(
+  tags: TagGroup[],
+  template: string,
+  outputDir: string = DEFAULT_CONFIG.outputDir,
+  context: RenderContext = DEFAULT_CONTEXT
+): Promise<void> {
+  const maxCount = Math.max(0, ...tags.map((tag) => tag.posts.length));
+  const html = renderTemplate(
+    template,
+    pageData(context, "../", {
+      title: "Tags",
+      tags: tags.map((tag) => ({
+        name: tag.name,
+        slug: tag.slug,
+        count: tag.posts.length,
+        weight: tagWeight(tag.posts.length, maxCount),
+      })),
+    }),
+    context.library,
+    "tags"
+  );
+  await writePage(context, outputDir, path.join(TAGS_DIR, "index.html"), html);
+}
+
+export async function buildSeriesPages(
+  series: SeriesGroup[],
+  template: string,
+  outputDir: string = DEFAULT_CONFIG.outputDir,
+  context: RenderContext = DEFAULT_CONTEXT
+): Promise<void> {
+  await Promise.all(
+    series.map((group) => {
+      const html = renderTemplate(
+        template,
+        pageData(context, "../", {
+          title: group.name,
+          series: group.name,
+          count: group.posts.length,
+          posts: group.posts.map((post) =>
+            postSummary(post, context.site, "../")
+          ),
+        }),
+        context.library,
+        "series"
+      );
+      return writePage(
+        context,
+        outputDir,
+        path.join(SERIES_DIR, `${group.slug}.html`),
+        html
+      );
+    })
+  );
+}
+
+export function feedOptions(site: SiteConfig): FeedOptions {
+  return {
+    siteUrl: site.baseUrl,
+    title: site.title,
+    description: site.description,
+    author: site.author,
+    content: site.feed.content,
+    limit: site.feed.limit,
+  };
+}
+
+export async function buildFeeds(
+  posts: Post[],
+  options: FeedOptions = feedOptions(DEFAULT_CONFIG),
+  outputDir: string = DEFAULT_CONFIG.outputDir,
+  context: RenderContext = DEFAULT_CONTEXT
+): Promise<void> {
+  await Promise.all([
+    writePage(context, outputDir, FEED_FILES.rss, renderRss(posts, options)),
+    writePage(context, outputDir, FEED_FILES.atom, renderAtom(posts, options)),
+    writePage(
+      context,
+      outputDir,
+      FEED_FILES.json,
+      renderJsonFeed(posts, options)
+    ),
+  ]);
+}
+
+// Files copied from the templates directory when present. The stylesheet
+// is written under its fingerprinted name (see loadStylesheet).
+const STATIC_ASSETS = [STYLESHEET, "search.js"];
+
+async function copyAssets(context: RenderContext): Promise<void> {
+  const { site } = context;
+  for (const asset of STATIC_ASSETS) {
+    let content: string;
+    try {
+      content = await context.fs.readFile(path.join(site.templatesDir, asset));
+    } catch {
+      // Not provided by these templates, skip
+      continue;
+    }
+    const file = asset === STYLESHEET ? context.stylesheet : asset;
+    await writePage(context, site.outputDir, file, content);
+  }
+}
+
+// Returns the name styles.css is published under, with a hash of its
+// content, so browsers never keep using an outdated copy
+async function loadStylesheet(
+  templatesDir: string,
+  files: FileSystem
+): Promise<string> {
+  try {
+    const content = await files.readFile(path.join(templatesDir, STYLESHEET));
+    return fingerprint(STYLESHEET, content);
   } catch {
-    // No styles file, skip
+    return STYLESHEET;
+  }
+}
+
+// Copies the files folder posts reference to their fingerprinted paths
+async function copyPostAssets(
+  posts: Post[],
+  outputDir: string,
+  context: RenderContext
+): Promise<void> {
+  for (const post of posts) {
+    for (const asset of post.assets ?? []) {
+      const output = path.join(outputDir, asset.output);
+      await context.fs.mkdir(path.dirname(output));
+      await context.fs.copyFile(asset.source, output);
+      context.pages.push(asset.output);
+    }
+  }
+}
+
+// A post as it appears in feeds, where relative URLs would be resolved
+// against the feed's URL, if at all
+function feedPost(post: Post, site: SiteConfig): Post {
+  return {
+    ...post,
+    html: postHtml(post.html, post, site.baseUrl),
+    excerpt: postHtml(post.excerpt, post, site.baseUrl),
+  };
+}
+
+// The search page itself is static; search.js loads the index at runtime
+async function buildSearch(
+  posts: Post[],
+  template: string,
+  outputDir: string,
+  context: RenderContext
+): Promise<void> {
+  await writePage(
+    context,
+    outputDir,
+    SEARCH_INDEX_FILE,
+    JSON.stringify(buildSearchIndex(posts))
+  );
+  const html = renderTemplate(
+    template,
+    pageData(context, "", { title: "Search" }),
+    context.library,
+    "search"
+  );
+  await writePage(context, outputDir, "search.html", html);
+}
+
+// Writes each standalone page with page.html, or the template its `layout`
+// names
+async function buildPages(
+  pages: Page[],
+  template: string,
+  outputDir: string,
+  context: RenderContext
+): Promise<void> {
+  const { site } = context;
+  for (const page of pages) {
+    const notFound = page.slug === NOT_FOUND_PAGE;
+    const root = notFound ? notFoundRoot(site) : "";
+    const layout = page.meta.layout ?? "page";
+    const source =
+      layout === "page"
+        ? template
+        : await readTemplate(site.templatesDir, layout, context.fs);
+    const html = renderTemplate(
+      source,
+      pageData(context, root, {
+        slug: page.slug,
+        url: `${page.slug}.html`,
+        title: page.meta.title,
+        content: resolvePostUrls(page.html, [], root),
+        head: siteHead(site, page.meta.description),
+        noindex: notFound,
+      }),
+      context.library,
+      layout
+    );
+    await writePage(context, outputDir, `${page.slug}.html`, html);
+  }
+}
+
+// Lists published posts, standalone pages and the listing pages written so
+// far. Drafts and scheduled posts are noindex, so they stay out, as do the
+// search page and 404.html.
+async function buildSitemap(
+  posts: Post[],
+  pages: Page[],
+  outputDir: string,
+  context: RenderContext
+): Promise<void> {
+  const { site } = context;
+  const ownPages = new Set(
+    [...posts, ...pages].map((item) => `${item.slug}.html`)
+  );
+  const indexable = context.posts.filter((post) => !isScheduled(post));
+  const lastmod = newestLastmod(indexable);
+  const entries: SitemapEntry[] = [
+    ...context.pages
+      .filter(
+        (file) =>
+          file.endsWith(".html") &&
+          !ownPages.has(file) &&
+          file !== "search.html"
+      )
+      .map((url) => ({ url, lastmod })),
+    ...indexable.map((post) => ({
+      url: `${post.slug}.html`,
+      lastmod: postLastmod(post),
+    })),
+    ...pages
+      .filter((page) => page.slug !== NOT_FOUND_PAGE)
+      .map((page) => ({
+        url: `${page.slug}.html`,
+        lastmod: page.meta.updated && new Date(page.meta.updated),
+      })),
+  ].sort((a, b) => a.url.localeCompare(b.url));
+
+  await writePage(
+    context,
+    outputDir,
+    SITEMAP_FILE,
+    renderSitemap(entries, site.baseUrl)
+  );
+  await writePage(context, outputDir, ROBOTS_FILE, renderRobots(site.baseUrl));
+}
+
+// Reads back every generated page, including unchanged posts, and checks
+// their links. Stale files count as missing, even in a dry run.
+async function checkOutputLinks(
+  posts: Post[],
+  generated: string[],
+  removed: string[],
+  context: RenderContext
+): Promise<LinkProblem[]> {
+  const { site, fs } = context;
+  const pages = new Map<string, string>();
+  for (const file of generated) {
+    if (!file.endsWith(".html")) continue;
+    pages.set(file, await fs.readFile(path.join(site.outputDir, file)));
   }
+  const written = new Set(generated);
+  const stale = new Set(removed);
+  const listed = new Set(filterPostsForIndex(posts));
+
+  return checkLinks({
+    pages,
+    baseUrl: site.baseUrl,
+    // Preview builds scheduled posts and lists them like published ones, so
+    // only posts left off the index count
+    unpublished: new Set(
+      posts
+        .filter((post) => !listed.has(post))
+        .map((post) => `${post.slug}.html`)
+    ),
+    exists: async (file) =>
+      !stale.has(file) &&
+      (written.has(file) || (await fs.exists(path.join(site.outputDir, file)))),
+  });
 }
 
-export async function build(): Promise<void> {
-  console.log("Building site...");
+export async function build(options: BuildOptions = {}): Promise<BuildResult> {
+  const mode = options.mode ?? "preview";
+  const files = options.fs ?? nodeFileSystem;
+  const logger = options.logger ?? console;
+  const config = options.config ?? (await loadConfig(undefined, files));
+  const site: SiteConfig = {
+    ...config,
+    postsDir: options.postsDir ?? config.postsDir,
+    pagesDir: options.pagesDir ?? config.pagesDir,
+    outputDir: options.outputDir ?? config.outputDir,
+    templatesDir: options.templatesDir ?? config.templatesDir,
+  };
+  const { outputDir, templatesDir } = site;
+  const cacheFile = path.join(site.cacheDir, CACHE_FILE);
+  logger.log(`Building site (${mode} mode)...`);
 
   // Ensure output directory exists
-  await fs.mkdir(OUTPUT_DIR, { recursive: true });
+  await files.mkdir(outputDir);
 
   // Load templates
-  const [indexTemplate, postTemplate] = await Promise.all([
-    readTemplate("index"),
-    readTemplate("post"),
+  const [
+    indexTemplate,
+    postTemplate,
+    tagTemplate,
+    tagIndexTemplate,
+    archiveTemplate,
+    searchTemplate,
+    seriesTemplate,
+    pageTemplate,
+    library,
+  ] = await Promise.all([
+    readTemplate(templatesDir, "index", files),
+    readTemplate(templatesDir, "post", files),
+    readTemplate(templatesDir, "tag", files),
+    readTemplate(templatesDir, "tags", files),
+    readTemplate(templatesDir, "archive", files),
+    readTemplate(templatesDir, "search", files),
+    readTemplate(templatesDir, "series", files),
+    readTemplate(templatesDir, "page", files),
+    loadTemplateLibrary(templatesDir, files),
   ]);
 
+  const plugins = [
+    ...(await loadPlugins(site.plugins)),
+    ...(options.plugins ?? []),
+  ];
+  if (plugins.length > 0) {
+    logger.log(
+      `Using plugins: ${plugins.map((plugin) => plugin.name).join(", ")}`
+    );
+  }
+
+  // Parsed posts are only reused while the build code and plugins are
+  // unchanged. Plugins are only known by name, so edits to one need --force.
+  const codeHash = hashContent(
+    await hashBuildCode(),
+    ...plugins.map((plugin) => plugin.name)
+  );
+  const cache = await loadCache(cacheFile, codeHash, files);
+  const nextCache = emptyCache(codeHash);
+
   // Get all posts (including drafts)
-  const allPosts = await getPosts();
-  console.log(`Found ${allPosts.length} posts`);
+  const { posts: allPosts, warnings } = await getPosts(
+    site.postsDir,
+    outputDir,
+    cache,
+    nextCache,
+    files,
+    logger,
+    plugins
+  );
+  logger.log(`Found ${allPosts.length} posts`);
 
-  // Build ALL posts (including drafts)
-  await Promise.all(allPosts.map((post) => buildPost(post, postTemplate)));
+  // Preview builds every post; production skips drafts and scheduled posts
+  const posts = filterPostsForMode(allPosts, mode);
+  if (posts.length < allPosts.length) {
+    logger.log(
+      `Skipping ${allPosts.length - posts.length} draft or scheduled posts`
+    );
+  }
 
-  // Index shows only non-drafts
-  const indexPosts = filterPostsForIndex(allPosts);
-  console.log(`Index will show ${indexPosts.length} non-draft posts`);
-  await buildIndex(indexPosts, indexTemplate);
+  // Standalone pages, plus a default 404.html when there's no 404 page
+  const { pages: sitePages, warnings: pageWarnings } = await getPages(
+    site,
+    new Set([...RESERVED_SLUGS, ...allPosts.map((post) => post.slug)]),
+    files,
+    logger,
+    plugins
+  );
+  warnings.push(...pageWarnings);
+  const pages = sitePages.some((page) => page.slug === NOT_FOUND_PAGE)
+    ? sitePages
+    : [...sitePages, defaultNotFoundPage(notFoundRoot(site))];
 
-  await copyStyles();
+  // Index shows only non-drafts, and posts only link to what it shows
+  const indexPosts = filterPostsForIndex(posts);
+  const context: RenderContext = {
+    site,
+    library,
+    fs: files,
+    pages: [],
+    posts: indexPosts,
+    plugins,
+    stylesheet: await loadStylesheet(templatesDir, files),
+    nav: navLinks(pages),
+  };
 
-  console.log("Build complete!");
-}
+  // Build posts, skipping unchanged ones
+  const unchanged = await buildChangedPosts(
+    Object.values(nextCache.posts).filter((entry) =>
+      posts.includes(entry.post)
+    ),
+    postTemplate,
+    outputDir,
+    context,
+    options.force ?? false
+  );
+  logger.log(
+    `Rendered ${posts.length - unchanged.length} posts (${unchanged.length} unchanged)`
+  );
+
+  logger.log(`Index will show ${indexPosts.length} non-draft posts`);
+  await buildIndex(indexPosts, indexTemplate, outputDir, context);
+
+  // Tag pages are built from the same non-draft list as the index
+  const tags = groupPostsByTag(indexPosts);
+  logger.log(`Building ${tags.length} tag pages`);
+  await buildTagPages(tags, tagTemplate, outputDir, context);
+  await buildTagIndex(tags, tagIndexTemplate, outputDir, context);
+
+  const series = groupPostsBySeries(indexPosts);
+  logger.log(`Building ${series.length} series pages`);
+  await buildSeriesPages(series, seriesTemplate, outputDir, context);
+
+  const years = groupPostsByMonth(indexPosts);
+  logger.log(`Building archives for ${years.length} years`);
+  await buildArchivePages(years, archiveTemplate, outputDir, context);
+
+  await buildFeeds(
+    indexPosts.map((post) => feedPost(post, site)),
+    feedOptions(site),
+    outputDir,
+    context
+  );
+
+  // Searchable posts match the index, so drafts never show up
+  await buildSearch(indexPosts, searchTemplate, outputDir, context);
+
+  logger.log(`Building ${sitePages.length} standalone pages`);
+  await buildPages(pages, pageTemplate, outputDir, context);
+
+  await copyAssets(context);
+  await copyPostAssets(posts, outputDir, context);
+
+  // Before the sitemap, so extra pages from plugins are listed too
+  await runBuildEnd(plugins, {
+    site,
+    posts: indexPosts,
+    pages: [...context.pages, ...unchanged],
+    writeFile: (file, content) => writePage(context, outputDir, file, content),
+  });
+
+  // Last, so it can list every page written above
+  await buildSitemap(posts, pages, outputDir, context);
+  // Informational only: a project site can't fix this from its own output
+  const robots = robotsNote(site.baseUrl);
+  if (robots) logger.log(robots);
+
+  // Delete pages of renamed or deleted posts, tags that are gone, etc.
+  const generated = [...context.pages, ...unchanged];
+  const removed = staleFiles(
+    await loadOutputManifest(outputDir, files),
+    generated
+  );
+  for (const file of removed) {
+    if (options.dryRun) {
+      logger.log(`Would remove ${file}`);
+    } else {
+      logger.log(`Removing ${file}`);
+      await files.remove(path.join(outputDir, file));
+    }
+  }
+  // A dry run keeps the stale files listed so a later build still removes them
+  await saveOutputManifest(
+    outputDir,
+    options.dryRun ? [...generated, ...removed] : generated,
+    files
+  );
+
+  await saveCache(cacheFile, nextCache, files);
+
+  const brokenLinks = await checkOutputLinks(
+    posts,
+    generated,
+    removed,
+    context
+  );
+  if (brokenLinks.length > 0) {
+    const report = formatLinkReport(
+      brokenLinks,
+      new Map([
+        ...Object.entries(nextCache.posts).map(
+          ([file, entry]): [string, string] => [
+            `${entry.post.slug}.html`,
+            path.join(site.postsDir, file),
+          ]
+        ),
+        ...sitePages.map((page): [string, string] => [
+          `${page.slug}.html`,
+          path.join(site.pagesDir, `${page.slug}.md`),
+        ]),
+      ])
+    );
+    if (options.strict) throw new LinkCheckError(report, brokenLinks);
+    logger.warn(report);
+  }
 
-const isMainModule = process.argv[1] === fileURLToPath(import.meta.url);
-if (isMainModule) {
-  build().catch(console.error);
+  logger.log("Build complete!");
+  return {
+    mode,
+    pages: context.pages.sort(),
+    unchanged,
+    removed,
+    warnings,
+    brokenLinks,
+    stylesheet: context.stylesheet,
+  };
 }
@@ -0,0 +1,88 @@
+import fs from "fs/promises";
+import path from "path";
+import { createHash } from "crypto";
+import { fileURLToPath } from "url";
+import type { Post } from "./build.js";
+import { nodeFileSystem } from "./filesystem.js";
+import type { FileSystem } from "./filesystem.js";
+import type { Diagnostic } from "./validate.js";
+
+// Bump when the manifest shape changes so old caches are discarded
+const CACHE_VERSION = 1;
+
+export interface CachedPost {
+  // Hash of the raw markdown file, used to reuse the parsed post
+  sourceHash: string;
+  // Hash of everything the rendered page depends on, used to skip writing it
+  renderHash?: string;
+  post: Post;
+  diagnostics: Diagnostic[];
+}
+
+export interface BuildCache {
+  version: number;
+  // Hash of the build code; parsed posts are only reused if it matches
+  codeHash: string;
+  posts: Record<string, CachedPost>;
+}
+
+export function hashContent(...parts: string[]): string {
+  const hash = createHash("sha256");
+  for (const part of parts) {
+    hash.update(part);
+    hash.update("\0");
+  }
+  return hash.digest("hex").slice(0, 16);
+}
+
+export function emptyCache(codeHash: string): BuildCache {
+  return { version: CACHE_VERSION, codeHash, posts: {} };
+}
+
+// Dates don't survive JSON, so restore PostMeta.date after loading
+function revivePost(post: Post): Post {
+  return { ...post, meta: { ...post.meta, date: new Date(post.meta.date) } };
+}
+
+export async function loadCache(
+  file: string,
+  codeHash: string,
+  files: FileSystem = nodeFileSystem
+): Promise<BuildCache> {
+  try {
+    const cache = JSON.parse(await files.readFile(file)) as BuildCache;
+    if (cache.version !== CACHE_VERSION || cache.codeHash !== codeHash) {
+      return emptyCache(codeHash);
+    }
+    for (const entry of Object.values(cache.posts)) {
+      entry.post = revivePost(entry.post);
+    }
+    return cache;
+  } catch {
+    // Missing or unreadable cache, start fresh
+    return emptyCache(codeHash);
+  }
+}
+
+export async function saveCache(
+  file: string,
+  cache: BuildCache,
+  files: FileSystem = nodeFileSystem
+): Promise<void> {
+  await files.mkdir(path.dirname(file));
+  await files.writeFile(file, JSON.stringify(cache));
+}
+
+// Hashes the compiled build code next to this module, so upgrading the
+// generator invalidates everything it produced before. This always reads
+// the real disk, since the code isn't part of the site being built.
+export async function hashBuildCode(): Promise<string> {
+  const dir = path.dirname(fileURLToPath(import.meta.url));
+  const files = (await fs.readdir(dir))
+    .filter((file) => /\.(js|ts)$/.test(file))
+    .sort();
+  const contents = await Promise.all(
+    files.map((file) => fs.readFile(path.join(dir, file), "utf-8"))
+  );
+  return hashContent(...files, ...contents);
+}
@@ -0,0 +1,65 @@
+import path from "path";
+import { nodeFileSystem } from "./filesystem.js";
+import type { FileSystem } from "./filesystem.js";
+
+// Lists the files the last build generated, so files it no longer produces
+// can be deleted without touching anything placed there by hand (e.g. CNAME)
+export const OUTPUT_MANIFEST = ".bpblog-manifest.json";
+
+// Bump when the manifest shape changes; older manifests are ignored
+const MANIFEST_VERSION = 1;
+
+interface OutputManifest {
+  version: number;
+  files: string[];
+}
+
+// Manifest entries are only trusted if they stay inside the output directory
+function isOutputPath(file: unknown): file is string {
+  if (typeof file !== "string") return false;
+  const normalized = path.posix.normalize(file);
+  return (
+    normalized !== "." &&
+    normalized !== ".." &&
+    normalized !== OUTPUT_MANIFEST &&
+    !path.posix.isAbsolute(normalized) &&
+    !normalized.startsWith("../")
+  );
+}
+
+// Files generated by the previous build that the current one didn't produce
+export function staleFiles(previous: string[], current: string[]): string[] {
+  const produced = new Set(current);
+  return previous.filter((file) => !produced.has(file)).sort();
+}
+
+export async function loadOutputManifest(
+  outputDir: string,
+  files: FileSystem = nodeFileSystem
+): Promise<string[]> {
+  try {
+    const manifest = JSON.parse(
+      await files.readFile(path.join(outputDir, OUTPUT_MANIFEST))
+    ) as OutputManifest;
+    if (manifest.version !== MANIFEST_VERSION) return [];
+    return manifest.files.filter(isOutputPath);
+  } catch {
+    // No manifest yet (or unreadable), so nothing is known to be stale
+    return [];
+  }
+}
+
+export async function saveOutputManifest(
+  outputDir: string,
+  generated: string[],
+  files: FileSystem = nodeFileSystem
+): Promise<void> {
+  const manifest: OutputManifest = {
+    version: MANIFEST_VERSION,
+    files: [...new Set(generated)].sort(),
+  };
+  await files.writeFile(
+    path.join(outputDir, OUTPUT_MANIFEST),
+    JSON.stringify(manifest, null, 2)
+  );
+}
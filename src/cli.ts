@@ -0,0 +1,434 @@
+#!/usr/bin/env node
+import { realpathSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { parseArgs } from "util";
+import type { ParseArgsConfig } from "util";
+import { build, BUILD_MODES, isScheduled, loadPosts } from "./build.js";
+import type { BuildMode, Logger, Post } from "./build.js";
+import { ConfigError, CONFIG_FILE, loadConfig } from "./config.js";
+import { startDevMode } from "./dev.js";
+import { createOverlayFileSystem, nodeFileSystem } from "./filesystem.js";
+import type { FileSystem } from "./filesystem.js";
+import { LinkCheckError } from "./links.js";
+import { tagSlug } from "./tags.js";
+import { ValidationError } from "./validate.js";
+
+// The `blog` command: one entry point for writing, building, serving and
+// checking the site. Exits with 0 on success, 1 when the command fails and
+// 2 when it was called the wrong way.
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+export interface CliOptions {
+  fs?: FileSystem;
+  // Results go to log; errors and warnings to warn
+  logger?: Logger;
+  // Today's date for `blog new`
+  now?: Date;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+type Values = Record<string, string | boolean | undefined>;
+
+interface CommandContext {
+  fs: FileSystem;
+  logger: Logger;
+  now: Date;
+  configFile: string;
+}
+
+interface Command {
+  summary: string;
+  usage: string;
+  options: NonNullable<ParseArgsConfig["options"]>;
+  // Option and description pairs for --help
+  help: [string, string][];
+  // Whether the command takes arguments besides options
+  positionals?: boolean;
+  run(
+    values: Values,
+    positionals: string[],
+    context: CommandContext
+  ): Promise<number>;
+}
+
+const COMMON_OPTIONS: Command["options"] = {
+  config: { type: "string" },
+  help: { type: "boolean", short: "h" },
+};
+
+const COMMON_HELP: [string, string][] = [
+  ["--config <file>", `Site config to use (default: ${CONFIG_FILE})`],
+  ["-h, --help", "Show this help"],
+];
+
+function isBuildMode(value: string): value is BuildMode {
+  return (BUILD_MODES as string[]).includes(value);
+}
+
+function buildMode(value: string | boolean | undefined): BuildMode {
+  const mode = typeof value === "string" ? value : "preview";
+  if (!isBuildMode(mode)) {
+    throw new UsageError(
+      `--mode: expected one of ${BUILD_MODES.join(", ")}, got "${mode}"`
+    );
+  }
+  return mode;
+}
+
+// YYYY-MM-DD in local time
+function localDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Plain words stay unquoted, as in the example posts
+function yamlString(value: string): string {
+  return /^[\w-]+$/.test(value) ? value : JSON.stringify(value);
+}
+
+const newCommand: Command = {
+  summary:
+    "Create a draft post with frontmatter, named after its date and title",
+  usage: 'blog new "Title" [options]',
+  options: {
+    date: { type: "string" },
+    tags: { type: "string" },
+    folder: { type: "boolean" },
+  },
+  help: [
+    ["--date <YYYY-MM-DD>", "Publication date (default: today)"],
+    ["--tags <a,b>", "Comma-separated tags"],
+    ["--folder", "Create <slug>/index.md, for a post with its own files"],
+  ],
+  positionals: true,
+  async run(values, positionals, { fs, logger, now, configFile }) {
+    if (positionals.length !== 1) {
+      throw new UsageError('expected one title, e.g. blog new "My Post"');
+    }
+    const title = positionals[0].trim();
+    const slug = tagSlug(title);
+    if (!slug) throw new UsageError("the title needs letters or digits");
+
+    const date = typeof values.date === "string" ? values.date : localDate(now);
+    const parsed = new Date(date);
+    if (isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+      throw new UsageError(`--date: "${date}" is not a YYYY-MM-DD date`);
+    }
+    const tags = (typeof values.tags === "string" ? values.tags.split(",") : [])
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+    const unnamed = tags.find((tag) => !tagSlug(tag));
+    if (unnamed) {
+      throw new UsageError(`--tags: "${unnamed}" needs letters or digits`);
+    }
+
+    const config = await loadConfig(configFile, fs);
+    const name = `${date}-${slug}`;
+    // Either form would be published as <name>.html
+    const single = path.join(config.postsDir, `${name}.md`);
+    const folder = path.join(config.postsDir, name);
+    for (const existing of [single, folder]) {
+      if (await fs.exists(existing)) {
+        logger.warn(`${existing} already exists`);
+        return EXIT_FAILURE;
+      }
+    }
+
+    const file = values.folder ? path.join(folder, "index.md") : single;
+    const content = [
+      "---",
+      `title: ${JSON.stringify(title)}`,
+      `date: ${date}`,
+      `tags: [${tags.map(yamlString).join(", ")}]`,
+      "draft: true",
+      "---",
+      "",
+      "",
+    ].join("\n");
+    await fs.mkdir(path.dirname(file));
+    await fs.writeFile(file, content);
+    logger.log(`Created ${file} (remove draft: true to publish it)`);
+    return EXIT_OK;
+  },
+};
+
+const buildCommand: Command = {
+  summary: "Build the site",
+  usage: "blog build [options]",
+  options: {
+    mode: { type: "string" },
+    out: { type: "string" },
+    force: { type: "boolean" },
+    "dry-run": { type: "boolean" },
+    strict: { type: "boolean" },
+  },
+  help: [
+    [
+      "--mode <mode>",
+      "preview (default) builds drafts too; production doesn't",
+    ],
+    ["--out <dir>", "Output directory, instead of the config's outputDir"],
+    ["--force", "Re-render every post, ignoring the cache"],
+    ["--dry-run", "Report stale output files instead of deleting them"],
+    ["--strict", "Fail when the generated pages have broken links"],
+  ],
+  async run(values, _positionals, { fs, logger, configFile }) {
+    const mode = buildMode(values.mode);
+    const config = await loadConfig(configFile, fs);
+    await build({
+      mode,
+      force: Boolean(values.force),
+      dryRun: Boolean(values["dry-run"]),
+      strict: Boolean(values.strict),
+      config,
+      outputDir: typeof values.out === "string" ? values.out : undefined,
+      fs,
+      logger,
+    });
+    return EXIT_OK;
+  },
+};
+
+const devCommand: Command = {
+  summary: "Serve the site and rebuild it on changes",
+  usage: "blog dev [options]",
+  options: { port: { type: "string" } },
+  help: [["--port <number>", "Port to serve on, instead of dev.port"]],
+  async run(values, _positionals, { configFile }) {
+    let port: number | undefined;
+    if (typeof values.port === "string") {
+      port = Number(values.port);
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new UsageError("--port: must be an integer between 1 and 65535");
+      }
+    }
+    await startDevMode({ config: configFile, port });
+    return EXIT_OK;
+  },
+};
+
+const checkCommand: Command = {
+  summary:
+    "Validate the config, frontmatter and links without writing any output",
+  usage: "blog check [options]",
+  options: { mode: { type: "string" } },
+  help: [["--mode <mode>", "Build mode to check (default: preview)"]],
+  async run(values, _positionals, { fs, logger, configFile }) {
+    const mode = buildMode(values.mode);
+    const config = await loadConfig(configFile, fs);
+    // A full build, kept in memory, so every page gets checked
+    const result = await build({
+      mode,
+      force: true,
+      strict: true,
+      config,
+      fs: createOverlayFileSystem(fs),
+      logger: { log: () => {}, warn: (message) => logger.warn(message) },
+    });
+    const pages = result.pages.filter((page) => page.endsWith(".html"));
+    logger.log(
+      `Checked ${pages.length} pages: no errors, ${result.warnings.length} warning(s)`
+    );
+    return EXIT_OK;
+  },
+};
+
+function postStatus(post: Post, now: Date): string {
+  if (post.meta.draft) return "draft";
+  return isScheduled(post, now) ? "scheduled" : "published";
+}
+
+// Left-aligned columns, two spaces apart
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+const listCommand: Command = {
+  summary: "List posts, newest first",
+  usage: "blog list [options]",
+  options: { drafts: { type: "boolean" }, tag: { type: "string" } },
+  help: [
+    ["--drafts", "Only list drafts"],
+    ["--tag <tag>", "Only list posts with this tag"],
+  ],
+  async run(values, _positionals, { fs, logger, now, configFile }) {
+    const config = await loadConfig(configFile, fs);
+    let posts = await loadPosts(config, fs, {
+      log: () => {},
+      warn: (message) => logger.warn(message),
+    });
+    if (values.drafts) posts = posts.filter((post) => post.meta.draft);
+    if (typeof values.tag === "string") {
+      const slug = tagSlug(values.tag);
+      posts = posts.filter((post) =>
+        (post.meta.tags ?? []).some((tag) => tagSlug(tag) === slug)
+      );
+    }
+
+    if (posts.length === 0) {
+      logger.log("No posts found");
+      return EXIT_OK;
+    }
+    logger.log(
+      formatTable([
+        ["DATE", "STATUS", "TITLE", "TAGS"],
+        ...posts.map((post) => [
+          new Date(post.meta.date).toISOString().slice(0, 10),
+          postStatus(post, now),
+          post.meta.title,
+          (post.meta.tags ?? []).join(", "),
+        ]),
+      ])
+    );
+    return EXIT_OK;
+  },
+};
+
+const COMMANDS: Record<string, Command> = {
+  new: newCommand,
+  build: buildCommand,
+  dev: devCommand,
+  check: checkCommand,
+  list: listCommand,
+};
+
+function formatHelpRows(rows: [string, string][]): string[] {
+  const width = Math.max(...rows.map(([name]) => name.length));
+  return rows.map(([name, text]) => `  ${name.padEnd(width)}  ${text}`);
+}
+
+export function mainHelp(): string {
+  return [
+    "Usage: blog <command> [options]",
+    "",
+    "Commands:",
+    ...formatHelpRows(
+      Object.entries(COMMANDS).map(([name, command]) => [name, command.summary])
+    ),
+    "",
+    'Run "blog <command> --help" for the options of a command.',
+  ].join("\n");
+}
+
+function commandHelp(command: Command): string {
+  return [
+    `Usage: ${command.usage}`,
+    "",
+    `${command.summary}.`,
+    "",
+    "Options:",
+    ...formatHelpRows([...command.help, ...COMMON_HELP]),
+  ].join("\n");
+}
+
+// Runs `blog` with `argv` (without the node and script paths) and returns
+// the exit code
+export async function runCli(
+  argv: string[],
+  options: CliOptions = {}
+): Promise<number> {
+  const { fs = nodeFileSystem, logger = console, now = new Date() } = options;
+  const [name, ...args] = argv;
+
+  if (name === "--help" || name === "-h" || name === "help") {
+    logger.log(mainHelp());
+    return EXIT_OK;
+  }
+  if (name === undefined) {
+    logger.warn(mainHelp());
+    return EXIT_USAGE;
+  }
+  const command = Object.hasOwn(COMMANDS, name) ? COMMANDS[name] : undefined;
+  if (!command) {
+    logger.warn(
+      `blog: unknown command "${name}"\nRun "blog --help" for the list of commands.`
+    );
+    return EXIT_USAGE;
+  }
+  const usageError = (message: string) => {
+    logger.warn(
+      `blog ${name}: ${message}\nRun "blog ${name} --help" for usage.`
+    );
+    return EXIT_USAGE;
+  };
+
+  let values: Values;
+  let positionals: string[];
+  try {
+    const parsed = parseArgs({
+      args,
+      options: { ...command.options, ...COMMON_OPTIONS },
+      allowPositionals: true,
+    });
+    // No option is declared with `multiple`
+    values = parsed.values as Values;
+    positionals = parsed.positionals;
+  } catch (error) {
+    return usageError((error as Error).message);
+  }
+  if (values.help) {
+    logger.log(commandHelp(command));
+    return EXIT_OK;
+  }
+  if (positionals.length > 0 && !command.positionals) {
+    return usageError(`unexpected argument "${positionals[0]}"`);
+  }
+
+  try {
+    return await command.run(values, positionals, {
+      fs,
+      logger,
+      now,
+      configFile:
+        typeof values.config === "string" ? values.config : CONFIG_FILE,
+    });
+  } catch (error) {
+    if (error instanceof UsageError) return usageError(error.message);
+    // These are already formatted for people, so skip the stack
+    const isReported =
+      error instanceof ValidationError ||
+      error instanceof ConfigError ||
+      error instanceof LinkCheckError;
+    logger.warn(
+      isReported || !(error instanceof Error)
+        ? String(isReported ? error.message : error)
+        : (error.stack ?? error.message)
+    );
+    return EXIT_FAILURE;
+  }
+}
+
+// Installed as a bin, the script is reached through a symlink
+function isMainModule(): boolean {
+  try {
+    return realpathSync(process.argv[1]) === fileURLToPath(import.meta.url);
+  } catch {
+    return false;
+  }
+}
+
+if (isMainModule()) {
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,240 @@
+import path from "path";
+import { nodeFileSystem } from "./filesystem.js";
+import type { FileSystem } from "./filesystem.js";
+
+export interface SiteConfig {
+  title: string;
+  description: string;
+  // Absolute URL the site is published at, used for feeds and links
+  baseUrl: string;
+  author?: string;
+  // BCP 47 locale for dates and the <html lang> attribute
+  locale: string;
+  // Directories are resolved relative to the config file
+  postsDir: string;
+  // Standalone pages like About; optional
+  pagesDir: string;
+  outputDir: string;
+  templatesDir: string;
+  cacheDir: string;
+  feed: {
+    content: "full" | "excerpt";
+    limit?: number;
+  };
+  pagination: {
+    // Posts on each index page
+    perPage: number;
+  };
+  related: {
+    // Related posts listed on each post page; 0 turns the list off
+    limit: number;
+  };
+  dev: {
+    port: number;
+    debounceMs: number;
+  };
+  // Plugin modules: paths relative to the config file, or package names
+  plugins: string[];
+}
+
+export const CONFIG_FILE = "blog.config.json";
+
+export const DEFAULT_CONFIG: SiteConfig = {
+  title: "Blog",
+  description: "Latest posts",
+  baseUrl: "https://dmose.github.io/bpblog/",
+  locale: "en-US",
+  postsDir: "posts",
+  pagesDir: "pages",
+  outputDir: "docs",
+  templatesDir: "templates",
+  cacheDir: ".cache",
+  feed: { content: "full" },
+  pagination: { perPage: 10 },
+  related: { limit: 3 },
+  dev: { port: 3000, debounceMs: 300 },
+  plugins: [],
+};
+
+export class ConfigError extends Error {
+  problems: string[];
+
+  constructor(file: string, problems: string[]) {
+    super(
+      `Invalid site config ${file}:\n` +
+        problems.map((problem) => `  - ${problem}`).join("\n")
+    );
+    this.name = "ConfigError";
+    this.problems = problems;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Merges `raw` over the defaults and checks every field, collecting all
+// problems before throwing so they can be fixed in one go
+export function validateConfig(
+  raw: unknown,
+  file: string = CONFIG_FILE
+): SiteConfig {
+  if (!isRecord(raw)) {
+    throw new ConfigError(file, ["config must be a JSON object"]);
+  }
+
+  const problems: string[] = [];
+  const config: SiteConfig = {
+    ...DEFAULT_CONFIG,
+    ...raw,
+    feed: {
+      ...DEFAULT_CONFIG.feed,
+      ...(isRecord(raw.feed) ? raw.feed : {}),
+    },
+    pagination: {
+      ...DEFAULT_CONFIG.pagination,
+      ...(isRecord(raw.pagination) ? raw.pagination : {}),
+    },
+    related: {
+      ...DEFAULT_CONFIG.related,
+      ...(isRecord(raw.related) ? raw.related : {}),
+    },
+    dev: { ...DEFAULT_CONFIG.dev, ...(isRecord(raw.dev) ? raw.dev : {}) },
+  } as SiteConfig;
+
+  for (const key of Object.keys(raw)) {
+    if (!(key in DEFAULT_CONFIG) && key !== "author") {
+      problems.push(`${key}: unknown option`);
+    }
+  }
+
+  const strings = [
+    "title",
+    "description",
+    "locale",
+    "postsDir",
+    "pagesDir",
+    "outputDir",
+    "templatesDir",
+    "cacheDir",
+  ] as const;
+  for (const key of strings) {
+    if (typeof config[key] !== "string" || config[key].trim() === "") {
+      problems.push(`${key}: must be a non-empty string`);
+    }
+  }
+
+  if (config.author !== undefined && typeof config.author !== "string") {
+    problems.push("author: must be a string");
+  }
+  if (typeof config.baseUrl !== "string" || !isHttpUrl(config.baseUrl)) {
+    problems.push("baseUrl: must be an absolute http(s) URL");
+  }
+  if (typeof config.locale === "string" && !isValidLocale(config.locale)) {
+    problems.push(`locale: "${config.locale}" is not a supported locale`);
+  }
+  if (raw.feed !== undefined && !isRecord(raw.feed)) {
+    problems.push("feed: must be an object");
+  }
+  if (!["full", "excerpt"].includes(config.feed.content)) {
+    problems.push('feed.content: must be "full" or "excerpt"');
+  }
+  if (
+    config.feed.limit !== undefined &&
+    (!Number.isInteger(config.feed.limit) || config.feed.limit < 1)
+  ) {
+    problems.push("feed.limit: must be a positive integer");
+  }
+  if (raw.pagination !== undefined && !isRecord(raw.pagination)) {
+    problems.push("pagination: must be an object");
+  }
+  if (
+    !Number.isInteger(config.pagination.perPage) ||
+    config.pagination.perPage < 1
+  ) {
+    problems.push("pagination.perPage: must be a positive integer");
+  }
+  if (raw.related !== undefined && !isRecord(raw.related)) {
+    problems.push("related: must be an object");
+  }
+  if (!Number.isInteger(config.related.limit) || config.related.limit < 0) {
+    problems.push("related.limit: must be a non-negative integer");
+  }
+  if (raw.dev !== undefined && !isRecord(raw.dev)) {
+    problems.push("dev: must be an object");
+  }
+  if (
+    !Number.isInteger(config.dev.port) ||
+    config.dev.port < 1 ||
+    config.dev.port > 65535
+  ) {
+    problems.push("dev.port: must be an integer between 1 and 65535");
+  }
+  if (typeof config.dev.debounceMs !== "number" || config.dev.debounceMs < 0) {
+    problems.push("dev.debounceMs: must be a non-negative number");
+  }
+
+  if (
+    !Array.isArray(config.plugins) ||
+    config.plugins.some(
+      (plugin) => typeof plugin !== "string" || plugin.trim() === ""
+    )
+  ) {
+    problems.push("plugins: must be a list of module paths or package names");
+  }
+
+  if (problems.length > 0) throw new ConfigError(file, problems);
+
+  // Normalize so templates can always append paths to the base URL
+  if (!config.baseUrl.endsWith("/")) config.baseUrl += "/";
+  return config;
+}
+
+// Loads and validates the config file. A missing file means the defaults,
+// so an unconfigured checkout keeps building the same site as before.
+export async function loadConfig(
+  file: string = CONFIG_FILE,
+  files: FileSystem = nodeFileSystem
+): Promise<SiteConfig> {
+  let raw: unknown = {};
+  try {
+    raw = JSON.parse(await files.readFile(file));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw new ConfigError(file, [(error as Error).message]);
+    }
+  }
+
+  const config = validateConfig(raw, file);
+  const baseDir = path.dirname(file);
+  const resolveDir = (dir: string) =>
+    path.isAbsolute(dir) ? dir : path.join(baseDir, dir);
+  // Package names are left for Node to resolve
+  const resolvePlugin = (plugin: string) =>
+    plugin.startsWith(".") ? path.resolve(baseDir, plugin) : plugin;
+  return {
+    ...config,
+    postsDir: resolveDir(config.postsDir),
+    pagesDir: resolveDir(config.pagesDir),
+    outputDir: resolveDir(config.outputDir),
+    templatesDir: resolveDir(config.templatesDir),
+    cacheDir: resolveDir(config.cacheDir),
+    plugins: config.plugins.map(resolvePlugin),
+  };
+}
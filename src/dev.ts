@@ -1,17 +1,47 @@
 import chokidar from "chokidar";
-import { exec, spawn } from "child_process";
+import path from "path";
+import { exec } from "child_process";
 import { promisify } from "util";
 import { build } from "./build.js";
-import type { ChildProcess } from "child_process";
+import { ConfigError, CONFIG_FILE, loadConfig } from "./config.js";
+import type { SiteConfig } from "./config.js";
+import { startDevServer } from "./server.js";
+import type { DevServer } from "./server.js";
+import { ValidationError } from "./validate.js";
 
 const execAsync = promisify(exec);
 
+// Frontmatter and config problems are already formatted, so skip the stack
+function describeBuildError(error: unknown): unknown {
+  return error instanceof ValidationError || error instanceof ConfigError
+    ? `\n${error.message}`
+    : error;
+}
+
 let rebuildTimeout: NodeJS.Timeout | null = null;
 let isRebuilding = false;
-let serverProcess: ChildProcess | null = null;
-const DEBOUNCE_MS = 300;
-const SERVE_PORT = 3000;
-const SERVE_URL = `http://localhost:${SERVE_PORT}`;
+let server: DevServer | null = null;
+// Changes collected while the debounce timer is pending
+const pendingChanges = new Set<string>();
+let pendingTypeScriptRecompile = false;
+
+export interface DevOptions {
+  // Path to the site config
+  config?: string;
+  // Overrides dev.port from the config
+  port?: number;
+}
+
+let options: DevOptions = {};
+// Reloaded before every rebuild so config edits apply without a restart
+let config: SiteConfig;
+
+async function loadDevConfig(): Promise<SiteConfig> {
+  const loaded = await loadConfig(options.config);
+  return options.port === undefined
+    ? loaded
+    : { ...loaded, dev: { ...loaded.dev, port: options.port } };
+}
 
 // Common watcher configuration for reliable file watching on macOS
 // Note: ignoreInitial must be false with polling to discover existing files
@@ -35,7 +65,12 @@ async function recompileTypeScript(): Promise<void> {
   }
 }
 
-async function regenerateSite(): Promise<void> {
+// Stylesheet-only changes can be swapped in without a full page reload
+function isCssOnly(changedFiles: string[]): boolean {
+  return changedFiles.every((file) => path.extname(file) === ".css");
+}
+
+async function regenerateSite(changedFiles: string[]): Promise<void> {
   if (isRebuilding) {
     console.log("⏳ Build already in progress, skipping...");
     return;
@@ -44,73 +79,108 @@ async function regenerateSite(): Promise<void> {
   isRebuilding = true;
   try {
     console.log("🔄 Regenerating site...");
-    await build();
+    config = await loadDevConfig();
+    const result = await build({ config });
     console.log("✅ Site regenerated successfully\n");
+    if (isCssOnly(changedFiles)) {
+      // The stylesheet's fingerprinted name changes with its content
+      server?.reloadCss(result.stylesheet);
+    } else {
+      server?.reload();
+    }
   } catch (error) {
-    console.error("❌ Site regeneration failed:", error);
+    console.error("❌ Site regeneration failed:", describeBuildError(error));
+    server?.showError(error);
   } finally {
     isRebuilding = false;
   }
 }
 
 function scheduleRebuild(filePath: string, needsTypeScriptRecompile: boolean) {
+  pendingChanges.add(filePath);
+  pendingTypeScriptRecompile ||= needsTypeScriptRecompile;
+
   if (rebuildTimeout) {
     clearTimeout(rebuildTimeout);
   }
 
   rebuildTimeout = setTimeout(async () => {
-    console.log(`📝 Change detected: ${filePath}`);
+    const changedFiles = [...pendingChanges];
+    const recompile = pendingTypeScriptRecompile;
+    pendingChanges.clear();
+    pendingTypeScriptRecompile = false;
+    console.log(`📝 Change detected: ${changedFiles.join(", ")}`);
 
     try {
-      if (needsTypeScriptRecompile) {
+      if (recompile) {
         await recompileTypeScript();
       }
-      await regenerateSite();
+      await regenerateSite(changedFiles);
     } catch (error) {
       console.error("❌ Rebuild failed:", error);
+      server?.showError(error);
     }
-  }, DEBOUNCE_MS);
+  }, config.dev.debounceMs);
 }
 
-function startServer(): void {
+async function startServer(): Promise<void> {
   console.log("🌐 Starting server...");
-  serverProcess = spawn("npx", ["serve", "docs", "-p", String(SERVE_PORT)], {
-    stdio: "inherit",
-  });
-
-  serverProcess.on("error", (error) => {
-    console.error("❌ Server failed to start:", error);
+  server = await startDevServer({
+    root: config.outputDir,
+    port: config.dev.port,
   });
-
-  console.log(`✅ Server running at ${SERVE_URL}\n`);
+  const url = `http://localhost:${config.dev.port}`;
+  console.log(`✅ Server running at ${url} (live reload enabled)\n`);
 }
 
-function cleanup(): void {
+async function cleanup(): Promise<void> {
   console.log("\n🛑 Shutting down...");
-  if (serverProcess) {
-    serverProcess.kill("SIGTERM");
+  if (server) {
+    await server.close();
   }
   process.exit(0);
 }
 
-async function startDevMode(): Promise<void> {
+// Builds the site, serves it and rebuilds on changes until interrupted
+export async function startDevMode(devOptions: DevOptions = {}): Promise<void> {
+  options = devOptions;
+  const configFile = options.config ?? CONFIG_FILE;
+
+  // Handle cleanup on exit
+  process.on("SIGINT", cleanup);
+  process.on("SIGTERM", cleanup);
+
   console.log("🚀 Starting dev mode...\n");
+
+  try {
+    config = await loadDevConfig();
+  } catch (error) {
+    console.error("❌ Could not load config:", describeBuildError(error));
+    process.exit(1);
+  }
+
   console.log("👀 Watching:");
   console.log("  - src/**/*.ts (TypeScript files)");
-  console.log("  - posts/**/*.md (Markdown posts)");
-  console.log("  - templates/**/*.{html,css} (Templates and styles)\n");
+  console.log(
+    `  - ${config.postsDir}/**/* (Markdown posts and folder post assets)`
+  );
+  console.log(`  - ${config.pagesDir}/*.md (Standalone pages)`);
+  console.log(
+    `  - ${config.templatesDir}/**/*.{html,css} (Templates and styles)`
+  );
+  console.log(`  - ${configFile} (Site config)\n`);
 
   // Initial build
   try {
-    await build();
+    await build({ config });
     console.log("✅ Initial build complete\n");
   } catch (error) {
-    console.error("❌ Initial build failed:", error);
+    console.error("❌ Initial build failed:", describeBuildError(error));
     process.exit(1);
   }
 
   // Start the server
-  startServer();
+  await startServer();
 
   // Watch TypeScript source files - watch directory, not glob pattern
   const srcWatcher = chokidar.watch("src", {
@@ -128,11 +198,14 @@ async function startDevMode(): Promise<void> {
   });
 
   // Watch Markdown posts - watch directory, not glob pattern
-  const postsWatcher = chokidar.watch("posts", WATCHER_CONFIG);
+  const postsWatcher = chokidar.watch(config.postsDir, WATCHER_CONFIG);
 
   const handlePostChange = (filePath: string) => {
-    // Only rebuild for .md files
-    if (filePath.endsWith(".md")) {
+    // Rebuild for .md files, and any file inside a folder post
+    const isInFolder = path
+      .relative(config.postsDir, filePath)
+      .includes(path.sep);
+    if (filePath.endsWith(".md") || isInFolder) {
       scheduleRebuild(filePath, false);
     }
   };
@@ -145,8 +218,21 @@ async function startDevMode(): Promise<void> {
     postsWatcher.on("unlink", handlePostChange);
   });
 
+  // Watch standalone pages, whose directory may not exist yet
+  const pagesWatcher = chokidar.watch(config.pagesDir, WATCHER_CONFIG);
+
+  const handlePageChange = (filePath: string) => {
+    if (filePath.endsWith(".md")) scheduleRebuild(filePath, false);
+  };
+
+  pagesWatcher.on("ready", () => {
+    pagesWatcher.on("change", handlePageChange);
+    pagesWatcher.on("add", handlePageChange);
+    pagesWatcher.on("unlink", handlePageChange);
+  });
+
   // Watch templates and styles - watch directory, not glob pattern
-  const templatesWatcher = chokidar.watch("templates", WATCHER_CONFIG);
+  const templatesWatcher = chokidar.watch(config.templatesDir, WATCHER_CONFIG);
 
   templatesWatcher.on("ready", () => {
     templatesWatcher.on("change", (filePath) => {
@@ -157,14 +243,13 @@ async function startDevMode(): Promise<void> {
     });
   });
 
-  console.log("✨ Dev mode active. Press Ctrl+C to stop.\n");
-}
+  // Watch the site config, which may not exist yet
+  const configWatcher = chokidar.watch(configFile, WATCHER_CONFIG);
 
-// Handle cleanup on exit
-process.on("SIGINT", cleanup);
-process.on("SIGTERM", cleanup);
+  configWatcher.on("ready", () => {
+    configWatcher.on("change", (filePath) => scheduleRebuild(filePath, false));
+    configWatcher.on("add", (filePath) => scheduleRebuild(filePath, false));
+  });
 
-startDevMode().catch((error) => {
-  console.error("Failed to start dev mode:", error);
-  process.exit(1);
-});
+  console.log("✨ Dev mode active. Press Ctrl+C to stop.\n");
+}
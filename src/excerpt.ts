@@ -0,0 +1,40 @@
+import { escapeHtml } from "./template.js";
+
+// Everything above this marker in a post's Markdown becomes its excerpt
+export const MORE_MARKER = "<!--more-->";
+
+// Typical adult silent reading speed
+const WORDS_PER_MINUTE = 200;
+
+// Markdown before the <!--more--> marker, or undefined if there is none
+export function textBeforeMore(markdown: string): string | undefined {
+  const index = markdown.indexOf(MORE_MARKER);
+  return index === -1 ? undefined : markdown.slice(0, index);
+}
+
+export function firstParagraph(html: string): string {
+  const match = html.match(/<p>[\s\S]*?<\/p>/);
+  return match ? match[0] : "";
+}
+
+// A `summary:` frontmatter field is plain text, so it's escaped
+export function summaryHtml(summary: string): string {
+  return `<p>${escapeHtml(summary.trim())}</p>`;
+}
+
+// Counts the words readers see, so markup and attributes don't add to it
+export function countWords(html: string): number {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&[#\w]+;/g, " ");
+  return text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu)?.length ?? 0;
+}
+
+// Whole minutes, and never less than one
+export function readingTime(
+  wordCount: number,
+  wordsPerMinute: number = WORDS_PER_MINUTE
+): number {
+  return Math.max(1, Math.ceil(wordCount / wordsPerMinute));
+}
@@ -0,0 +1,148 @@
+import type { Post } from "./build.js";
+
+export interface FeedOptions {
+  siteUrl: string;
+  title: string;
+  description: string;
+  author?: string;
+  // "full" embeds Post.html, "excerpt" only Post.excerpt
+  content?: "full" | "excerpt";
+  limit?: number;
+}
+
+export const FEED_FILES = {
+  rss: "feed.xml",
+  atom: "atom.xml",
+  json: "feed.json",
+} as const;
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function absoluteUrl(pathname: string, siteUrl: string): string {
+  const base = siteUrl.endsWith("/") ? siteUrl : `${siteUrl}/`;
+  return new URL(pathname, base).toString();
+}
+
+function postUrl(post: Post, siteUrl: string): string {
+  return absoluteUrl(`${post.slug}.html`, siteUrl);
+}
+
+// RFC 822 (as updated by RFC 1123), e.g. "Mon, 15 Jan 2024 00:00:00 GMT"
+export function toRfc822(date: Date): string {
+  return new Date(date).toUTCString();
+}
+
+// RFC 3339, e.g. "2024-01-15T00:00:00.000Z"
+export function toRfc3339(date: Date): string {
+  return new Date(date).toISOString();
+}
+
+function feedContent(post: Post, options: FeedOptions): string {
+  return options.content === "excerpt" ? post.excerpt : post.html;
+}
+
+function feedPosts(posts: Post[], options: FeedOptions): Post[] {
+  return options.limit ? posts.slice(0, options.limit) : posts;
+}
+
+function lastUpdated(posts: Post[]): Date {
+  return posts.length > 0 ? new Date(posts[0].meta.date) : new Date(0);
+}
+
+// Expects posts already filtered and sorted by filterPostsForIndex
+export function renderRss(posts: Post[], options: FeedOptions): string {
+  const items = feedPosts(posts, options)
+    .map((post) => {
+      const url = postUrl(post, options.siteUrl);
+      const categories = (post.meta.tags ?? [])
+        .map((tag) => `\n      <category>${escapeXml(tag)}</category>`)
+        .join("");
+      return `
+    <item>
+      <title>${escapeXml(post.meta.title)}</title>
+      <link>${escapeXml(url)}</link>
+      <guid isPermaLink="true">${escapeXml(url)}</guid>
+      <pubDate>${toRfc822(post.meta.date)}</pubDate>${categories}
+      <description>${escapeXml(feedContent(post, options))}</description>
+    </item>`;
+    })
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(options.title)}</title>
+    <link>${escapeXml(absoluteUrl("", options.siteUrl))}</link>
+    <description>${escapeXml(options.description)}</description>
+    <atom:link href="${escapeXml(absoluteUrl(FEED_FILES.rss, options.siteUrl))}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${toRfc822(lastUpdated(posts))}</lastBuildDate>${items}
+  </channel>
+</rss>
+`;
+}
+
+export function renderAtom(posts: Post[], options: FeedOptions): string {
+  const entries = feedPosts(posts, options)
+    .map((post) => {
+      const url = postUrl(post, options.siteUrl);
+      const categories = (post.meta.tags ?? [])
+        .map((tag) => `\n    <category term="${escapeXml(tag)}" />`)
+        .join("");
+      const contentTag = options.content === "excerpt" ? "summary" : "content";
+      return `
+  <entry>
+    <title>${escapeXml(post.meta.title)}</title>
+    <link href="${escapeXml(url)}" />
+    <id>${escapeXml(url)}</id>
+    <published>${toRfc3339(post.meta.date)}</published>
+    <updated>${toRfc3339(post.meta.date)}</updated>${categories}
+    <${contentTag} type="html">${escapeXml(feedContent(post, options))}</${contentTag}>
+  </entry>`;
+    })
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(options.title)}</title>
+  <subtitle>${escapeXml(options.description)}</subtitle>
+  <link href="${escapeXml(absoluteUrl("", options.siteUrl))}" />
+  <link href="${escapeXml(absoluteUrl(FEED_FILES.atom, options.siteUrl))}" rel="self" />
+  <id>${escapeXml(absoluteUrl("", options.siteUrl))}</id>
+  <author>
+    <name>${escapeXml(options.author ?? options.title)}</name>
+  </author>
+  <updated>${toRfc3339(lastUpdated(posts))}</updated>${entries}
+</feed>
+`;
+}
+
+export function renderJsonFeed(posts: Post[], options: FeedOptions): string {
+  const feed = {
+    version: "https://jsonfeed.org/version/1.1",
+    title: options.title,
+    description: options.description,
+    home_page_url: absoluteUrl("", options.siteUrl),
+    feed_url: absoluteUrl(FEED_FILES.json, options.siteUrl),
+    ...(options.author ? { authors: [{ name: options.author }] } : {}),
+    items: feedPosts(posts, options).map((post) => {
+      const url = postUrl(post, options.siteUrl);
+      return {
+        id: url,
+        url,
+        title: post.meta.title,
+        content_html: feedContent(post, options),
+        date_published: toRfc3339(post.meta.date),
+        ...(post.meta.tags?.length ? { tags: post.meta.tags } : {}),
+      };
+    }),
+  };
+
+  return `${JSON.stringify(feed, null, 2)}\n`;
+}
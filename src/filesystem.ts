@@ -0,0 +1,183 @@
+import fs from "fs/promises";
+import path from "path";
+
+// The subset of file operations the build needs. Swapping in the in-memory
+// implementation lets tests and tools build a site without touching disk.
+export interface FileSystem {
+  readFile(file: string): Promise<string>;
+  // For images and other binary files
+  readBuffer(file: string): Promise<Buffer>;
+  writeFile(file: string, content: string | Buffer): Promise<void>;
+  copyFile(from: string, to: string): Promise<void>;
+  // Names of the entries directly inside `dir`
+  readdir(dir: string): Promise<string[]>;
+  // Creates `dir` and any missing parents
+  mkdir(dir: string): Promise<void>;
+  exists(file: string): Promise<boolean>;
+  // Deletes a file; missing files are ignored
+  remove(file: string): Promise<void>;
+}
+
+export const nodeFileSystem: FileSystem = {
+  readFile: (file) => fs.readFile(file, "utf-8"),
+  readBuffer: (file) => fs.readFile(file),
+  writeFile: (file, content) => fs.writeFile(file, content),
+  copyFile: (from, to) => fs.copyFile(from, to),
+  readdir: (dir) => fs.readdir(dir),
+  mkdir: async (dir) => {
+    await fs.mkdir(dir, { recursive: true });
+  },
+  exists: async (file) => {
+    try {
+      await fs.access(file);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  remove: (file) => fs.rm(file, { force: true }),
+};
+
+export interface MemoryFileSystem extends FileSystem {
+  // File contents keyed by normalized path; binary files are Buffers
+  files: Map<string, string | Buffer>;
+}
+
+function notFound(file: string): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException = new Error(
+    `ENOENT: no such file or directory, '${file}'`
+  );
+  error.code = "ENOENT";
+  return error;
+}
+
+function normalize(file: string): string {
+  return path.posix.normalize(file.replaceAll("\\", "/")).replace(/\/$/, "");
+}
+
+// Paths are normalized with POSIX rules, so "./posts/a.md" and "posts/a.md"
+// are the same file. Directories exist implicitly while they contain files.
+export function createMemoryFileSystem(
+  initialFiles: Record<string, string | Buffer> = {}
+): MemoryFileSystem {
+  const files = new Map<string, string | Buffer>();
+  const dirs = new Set<string>(["."]);
+
+  for (const [file, content] of Object.entries(initialFiles)) {
+    files.set(normalize(file), content);
+  }
+
+  const isDir = (dir: string) => {
+    const prefix = dir === "." ? "" : `${dir}/`;
+    if (dirs.has(dir)) return true;
+    for (const file of files.keys()) {
+      if (file.startsWith(prefix)) return true;
+    }
+    return false;
+  };
+
+  const read = (file: string) => {
+    const content = files.get(normalize(file));
+    if (content === undefined) throw notFound(file);
+    return content;
+  };
+
+  return {
+    files,
+    async readFile(file) {
+      const content = read(file);
+      return typeof content === "string" ? content : content.toString("utf-8");
+    },
+    async readBuffer(file) {
+      return Buffer.from(read(file));
+    },
+    async writeFile(file, content) {
+      files.set(normalize(file), content);
+    },
+    async copyFile(from, to) {
+      files.set(normalize(to), read(from));
+    },
+    async readdir(dir) {
+      const normalized = normalize(dir);
+      if (!isDir(normalized)) throw notFound(dir);
+      const prefix = normalized === "." ? "" : `${normalized}/`;
+      const entries = new Set<string>();
+      for (const entry of [...files.keys(), ...dirs]) {
+        if (entry.startsWith(prefix) && entry !== normalized && entry !== ".") {
+          entries.add(entry.slice(prefix.length).split("/")[0]);
+        }
+      }
+      return [...entries].sort();
+    },
+    async mkdir(dir) {
+      const parts = normalize(dir).split("/");
+      for (let i = 1; i <= parts.length; i++) {
+        dirs.add(parts.slice(0, i).join("/"));
+      }
+    },
+    async exists(file) {
+      const normalized = normalize(file);
+      return files.has(normalized) || isDir(normalized);
+    },
+    async remove(file) {
+      files.delete(normalize(file));
+    },
+  };
+}
+
+// Reads through to `base` but keeps every write and removal in memory, so
+// a build can run against a real site without changing it
+export function createOverlayFileSystem(base: FileSystem): MemoryFileSystem {
+  const memory = createMemoryFileSystem();
+  const removed = new Set<string>();
+  const inMemory = (file: string) => memory.files.has(normalize(file));
+  const inBase = (file: string) => !removed.has(normalize(file));
+
+  const overlay: MemoryFileSystem = {
+    files: memory.files,
+    async readFile(file) {
+      if (inMemory(file)) return memory.readFile(file);
+      if (!inBase(file)) throw notFound(file);
+      return base.readFile(file);
+    },
+    async readBuffer(file) {
+      if (inMemory(file)) return memory.readBuffer(file);
+      if (!inBase(file)) throw notFound(file);
+      return base.readBuffer(file);
+    },
+    async writeFile(file, content) {
+      removed.delete(normalize(file));
+      await memory.writeFile(file, content);
+    },
+    async copyFile(from, to) {
+      await overlay.writeFile(to, await overlay.readBuffer(from));
+    },
+    async readdir(dir) {
+      const [own, below] = await Promise.allSettled([
+        memory.readdir(dir),
+        base.readdir(dir),
+      ]);
+      if (own.status === "rejected" && below.status === "rejected") {
+        throw below.reason;
+      }
+      const prefix = normalize(dir) === "." ? "" : `${normalize(dir)}/`;
+      const entries = new Set(own.status === "fulfilled" ? own.value : []);
+      for (const entry of below.status === "fulfilled" ? below.value : []) {
+        if (inBase(prefix + entry)) entries.add(entry);
+      }
+      return [...entries].sort();
+    },
+    mkdir: (dir) => memory.mkdir(dir),
+    async exists(file) {
+      return (
+        (await memory.exists(file)) ||
+        (inBase(file) && (await base.exists(file)))
+      );
+    },
+    async remove(file) {
+      removed.add(normalize(file));
+      await memory.remove(file);
+    },
+  };
+  return overlay;
+}
@@ -0,0 +1,117 @@
+import hljs from "highlight.js/lib/core";
+import bash from "highlight.js/lib/languages/bash";
+import css from "highlight.js/lib/languages/css";
+import javascript from "highlight.js/lib/languages/javascript";
+import json from "highlight.js/lib/languages/json";
+import python from "highlight.js/lib/languages/python";
+import typescript from "highlight.js/lib/languages/typescript";
+import xml from "highlight.js/lib/languages/xml";
+import type { MarkedExtension } from "marked";
+import { escapeHtml } from "./template.js";
+
+// Fenced code blocks are highlighted at build time, so pages need no
+// JavaScript. The fence info string picks the language and options:
+//
+//   ```ts {3-5,8} showLineNumbers
+//
+// `{...}` marks lines to highlight and `showLineNumbers` numbers every line.
+// Tokens become `hljs-*` classes, themed in templates/styles.css.
+
+hljs.registerLanguage("bash", bash);
+hljs.registerLanguage("css", css);
+hljs.registerLanguage("javascript", javascript);
+hljs.registerLanguage("json", json);
+hljs.registerLanguage("python", python);
+hljs.registerLanguage("typescript", typescript);
+hljs.registerLanguage("xml", xml);
+hljs.registerAliases(["shell", "sh", "zsh", "console"], {
+  languageName: "bash",
+});
+
+export interface FenceInfo {
+  language?: string;
+  // Inclusive ranges of 1-based line numbers to highlight. Kept as ranges,
+  // since a range like {1-100000000} costs nothing until it's checked.
+  highlight: [number, number][];
+  lineNumbers: boolean;
+}
+
+export function parseFenceInfo(info: string = ""): FenceInfo {
+  const fence: FenceInfo = { highlight: [], lineNumbers: false };
+  const words = info.trim().match(/\{[^}]*\}|\S+/g) ?? [];
+
+  for (const word of words) {
+    if (word.startsWith("{")) {
+      for (const range of word.slice(1, -1).split(",")) {
+        const match = range.trim().match(/^(\d+)(?:-(\d+))?$/);
+        if (!match) continue;
+        fence.highlight.push([Number(match[1]), Number(match[2] ?? match[1])]);
+      }
+    } else if (word === "showLineNumbers") {
+      fence.lineNumbers = true;
+    } else if (fence.language === undefined) {
+      fence.language = word.toLowerCase();
+    }
+  }
+
+  return fence;
+}
+
+export function isHighlighted(fence: FenceInfo, line: number): boolean {
+  return fence.highlight.some(([start, end]) => line >= start && line <= end);
+}
+
+// Splits highlighted HTML into lines, closing any spans still open at a line
+// break and reopening them on the next line, so every line is well-formed
+function splitLines(html: string): string[] {
+  const lines: string[] = [];
+  const open: string[] = [];
+  let line = "";
+
+  for (const part of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (part === "\n") {
+      lines.push(line + "</span>".repeat(open.length));
+      line = open.join("");
+    } else {
+      if (part.startsWith("<span")) open.push(part);
+      else if (part === "</span>") open.pop();
+      line += part;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+export function highlightCode(code: string, info: string = ""): string {
+  const fence = parseFenceInfo(info);
+  const source = code.replace(/\n$/, "");
+  const language =
+    fence.language && hljs.getLanguage(fence.language)
+      ? fence.language
+      : undefined;
+  const html = language
+    ? hljs.highlight(source, { language, ignoreIllegals: true }).value
+    : escapeHtml(source);
+
+  const lines = splitLines(html).map((line, index) => {
+    const classes = isHighlighted(fence, index + 1)
+      ? "line highlighted"
+      : "line";
+    return `<span class="${classes}">${line}</span>`;
+  });
+
+  const preClasses = ["code-block"];
+  if (fence.lineNumbers) preClasses.push("line-numbers");
+  const codeClass = fence.language
+    ? ` class="hljs language-${escapeHtml(fence.language)}"`
+    : ` class="hljs"`;
+  return `<pre class="${preClasses.join(" ")}"><code${codeClass}>${lines.join("\n")}</code></pre>\n`;
+}
+
+export const highlightExtension: MarkedExtension = {
+  renderer: {
+    code(code, infostring) {
+      return highlightCode(code, infostring);
+    },
+  },
+};
@@ -0,0 +1,196 @@
+import type { MarkedExtension } from "marked";
+import { escapeHtml } from "./template.js";
+
+// Images load lazily and, when their size is known, reserve their space so
+// the page doesn't jump as they arrive. Sizes are read straight from the
+// file headers, so no native image library is needed.
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+function pngSize(data: Buffer): ImageSize | undefined {
+  const signature = "89504e470d0a1a0a";
+  if (data.length < 24 || data.toString("hex", 0, 8) !== signature) {
+    return undefined;
+  }
+  // The IHDR chunk always comes first
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+function gifSize(data: Buffer): ImageSize | undefined {
+  if (data.length < 10 || !/^GIF8[79]a$/.test(data.toString("latin1", 0, 6))) {
+    return undefined;
+  }
+  return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+}
+
+// Walks the JPEG segments up to the first start-of-frame, which holds the
+// size. EXIF orientation is ignored, so rotated photos report their stored
+// size.
+function jpegSize(data: Buffer): ImageSize | undefined {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return undefined;
+
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return undefined;
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      // Fill byte before a marker
+      offset++;
+      continue;
+    }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    const isFrame =
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc;
+    if (isFrame) {
+      return {
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+      };
+    }
+    // Markers without a length: TEM and RST0-RST7
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+    } else {
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+  return undefined;
+}
+
+function webpSize(data: Buffer): ImageSize | undefined {
+  if (
+    data.length < 30 ||
+    data.toString("latin1", 0, 4) !== "RIFF" ||
+    data.toString("latin1", 8, 12) !== "WEBP"
+  ) {
+    return undefined;
+  }
+
+  switch (data.toString("latin1", 12, 16)) {
+    // Lossy
+    case "VP8 ":
+      return {
+        width: data.readUInt16LE(26) & 0x3fff,
+        height: data.readUInt16LE(28) & 0x3fff,
+      };
+    // Lossless: 14-bit width and height minus one, packed after a signature
+    case "VP8L": {
+      const bits = data.readUInt32LE(21);
+      return {
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >> 14) & 0x3fff) + 1,
+      };
+    }
+    // Extended: 24-bit canvas width and height minus one
+    case "VP8X":
+      return {
+        width: data.readUIntLE(24, 3) + 1,
+        height: data.readUIntLE(27, 3) + 1,
+      };
+    default:
+      return undefined;
+  }
+}
+
+// Uses the width and height attributes when they are plain or px numbers,
+// else the viewBox
+function svgSize(data: Buffer): ImageSize | undefined {
+  const tag = data.toString("utf-8", 0, 4096).match(/<svg\b[^>]*>/i)?.[0];
+  if (!tag) return undefined;
+
+  const attribute = (name: string) =>
+    tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, "i"))?.[1];
+  const length = (value: string | undefined) => {
+    const match = value?.trim().match(/^(\d+(?:\.\d+)?)(px)?$/);
+    return match ? Math.round(Number(match[1])) : undefined;
+  };
+
+  const width = length(attribute("width"));
+  const height = length(attribute("height"));
+  if (width && height) return { width, height };
+
+  const viewBox = attribute("viewBox")
+    ?.trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  if (viewBox?.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { width: Math.round(viewBox[2]), height: Math.round(viewBox[3]) };
+  }
+  return undefined;
+}
+
+// Reads the size of a PNG, JPEG, GIF, WebP or SVG image, or returns
+// undefined for anything else
+export function imageSize(data: Buffer): ImageSize | undefined {
+  return (
+    pngSize(data) ??
+    jpegSize(data) ??
+    gifSize(data) ??
+    webpSize(data) ??
+    svgSize(data)
+  );
+}
+
+const IMG_TAG = /<img\b([^>]*?)\s*\/?>/gi;
+
+// Adds width and height to <img> tags that don't have them. `sizeOf` gets
+// each src as written in the HTML.
+export function addImageSizes(
+  html: string,
+  sizeOf: (src: string) => ImageSize | undefined
+): string {
+  return html.replace(IMG_TAG, (tag, attributes: string) => {
+    if (/\s(width|height)\s*=/i.test(attributes)) return tag;
+    const src = attributes.match(/\ssrc\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+    const size = src && sizeOf((src[1] ?? src[2]).replace(/&amp;/g, "&"));
+    if (!size) return tag;
+    return `<img${attributes} width="${size.width}" height="${size.height}">`;
+  });
+}
+
+// The src of every <img> tag, with &amp; decoded like addImageSizes does
+export function imageSources(html: string): string[] {
+  return [...html.matchAll(IMG_TAG)].flatMap(([, attributes]) => {
+    const src = attributes.match(/\ssrc\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+    return src ? [(src[1] ?? src[2]).replace(/&amp;/g, "&")] : [];
+  });
+}
+
+// Same URL cleanup as marked's own image renderer
+function cleanUrl(href: string): string | undefined {
+  try {
+    return encodeURI(href).replace(/%25/g, "%");
+  } catch {
+    return undefined;
+  }
+}
+
+// Images load lazily, and an image with a title becomes a figure with the
+// title as its caption: ![Alt text](cat.png "Caption")
+export const imageExtension: MarkedExtension = {
+  renderer: {
+    // marked passes `title` and `text` already escaped
+    image(href, title, text) {
+      const src = cleanUrl(href);
+      if (src === undefined) return text;
+      const img = `<img src="${escapeHtml(src)}" alt="${text}" loading="lazy" decoding="async">`;
+      return title
+        ? `<figure>${img}<figcaption>${title}</figcaption></figure>`
+        : img;
+    },
+    // A figure can't be inside a <p>, so a paragraph holding only a figure
+    // is dropped
+    paragraph(text) {
+      return /^<figure>(?:(?!<figure>).)*<\/figure>$/s.test(text)
+        ? `${text}\n`
+        : false;
+    },
+  },
+};
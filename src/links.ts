@@ -0,0 +1,196 @@
+import { htmlToText } from "./template.js";
+
+// Checks the generated HTML for links and assets that point nowhere: pages
+// that don't exist, #fragments with no matching id, missing images,
+// stylesheets and scripts, and published pages linking to drafts.
+
+export interface Link {
+  tag: string;
+  // As written in the page, with entities decoded
+  url: string;
+  // For <link> elements, e.g. "stylesheet"
+  rel?: string;
+}
+
+export interface LinkProblem {
+  // The page containing the link, relative to the output directory
+  page: string;
+  url: string;
+  message: string;
+}
+
+export interface LinkCheckOptions {
+  // Generated HTML pages by path, relative to the output directory
+  pages: Map<string, string>;
+  // Absolute URLs under this are internal, e.g. canonical links
+  baseUrl: string;
+  // Whether a file that isn't one of `pages` exists in the output
+  exists(file: string): Promise<boolean>;
+  // Pages of drafts; only they may link to each other
+  unpublished?: Set<string>;
+}
+
+export class LinkCheckError extends Error {
+  problems: LinkProblem[];
+
+  constructor(report: string, problems: LinkProblem[]) {
+    super(report);
+    this.name = "LinkCheckError";
+    this.problems = problems;
+  }
+}
+
+const LINK_TAGS = /<(a|img|link|script|source|iframe)\b[^>]*>/gi;
+const ID_ATTRIBUTE = /\s(?:id|name)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi;
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(
+    new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i")
+  );
+  const value = match && (match[1] ?? match[2] ?? match[3]);
+  return value === undefined || value === null ? undefined : htmlToText(value);
+}
+
+export function extractLinks(html: string): Link[] {
+  const links: Link[] = [];
+  for (const match of html.matchAll(LINK_TAGS)) {
+    const tag = match[1].toLowerCase();
+    const url = attribute(
+      match[0],
+      tag === "a" || tag === "link" ? "href" : "src"
+    );
+    if (url === undefined) continue;
+    links.push({
+      tag,
+      url,
+      ...(tag === "link" && { rel: attribute(match[0], "rel")?.toLowerCase() }),
+    });
+  }
+  return links;
+}
+
+// Every id a #fragment can point to
+export function extractIds(html: string): Set<string> {
+  const ids = new Set<string>();
+  for (const match of html.matchAll(ID_ATTRIBUTE)) {
+    ids.add(htmlToText(match[1] ?? match[2]));
+  }
+  return ids;
+}
+
+// What a missing target is called in the report
+function missingMessage(link: Link): string {
+  switch (link.tag) {
+    case "a":
+      return "broken link";
+    case "img":
+    case "source":
+      return "missing image";
+    case "script":
+      return "missing script";
+    case "link":
+      return link.rel === "stylesheet" ? "missing stylesheet" : "missing file";
+    default:
+      return "missing file";
+  }
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    // Leave malformed escapes as written; nothing will match them
+    return value;
+  }
+}
+
+// Resolves `url` on `page` to a file in the output directory and a fragment,
+// or returns undefined for links that leave the site (other hosts, mailto:)
+function resolveLink(
+  url: string,
+  page: string,
+  baseUrl: string
+): { file: string; fragment: string } | undefined {
+  let resolved: URL;
+  try {
+    resolved = new URL(url, new URL(page, baseUrl));
+  } catch {
+    return undefined;
+  }
+  const base = new URL(baseUrl);
+  if (
+    resolved.origin !== base.origin ||
+    !resolved.pathname.startsWith(base.pathname)
+  ) {
+    return undefined;
+  }
+
+  let file = decode(resolved.pathname.slice(base.pathname.length));
+  if (file === "" || file.endsWith("/")) file += "index.html";
+  return { file, fragment: decode(resolved.hash.slice(1)) };
+}
+
+export async function checkLinks(
+  options: LinkCheckOptions
+): Promise<LinkProblem[]> {
+  const { pages, baseUrl, unpublished = new Set() } = options;
+  const problems: LinkProblem[] = [];
+  const ids = new Map<string, Set<string>>();
+  const idsOf = (file: string) => {
+    if (!ids.has(file)) ids.set(file, extractIds(pages.get(file)!));
+    return ids.get(file)!;
+  };
+
+  for (const page of [...pages.keys()].sort()) {
+    for (const link of extractLinks(pages.get(page)!)) {
+      // Links like href="" or href="#" go nowhere in particular
+      if (link.url === "" || link.url === "#") continue;
+      const target = resolveLink(link.url, page, baseUrl);
+      if (!target) continue;
+      const report = (message: string) =>
+        problems.push({ page, url: link.url, message });
+
+      if (!pages.has(target.file) && !(await options.exists(target.file))) {
+        report(missingMessage(link));
+        continue;
+      }
+      if (unpublished.has(target.file) && !unpublished.has(page)) {
+        report("links to a draft");
+      }
+      if (
+        target.fragment &&
+        target.fragment !== "top" &&
+        pages.has(target.file) &&
+        !idsOf(target.file).has(target.fragment)
+      ) {
+        report(`missing anchor #${target.fragment}`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+// Groups problems by the page they were found on. `sources` names the post
+// a page was built from, e.g. "hello.html" → "posts/hello.md".
+export function formatLinkReport(
+  problems: LinkProblem[],
+  sources: Map<string, string> = new Map()
+): string {
+  const byPage = new Map<string, LinkProblem[]>();
+  for (const problem of problems) {
+    byPage.set(problem.page, [...(byPage.get(problem.page) ?? []), problem]);
+  }
+
+  const lines = [
+    `Found ${problems.length} broken link(s) in ${byPage.size} page(s):`,
+  ];
+  for (const [page, pageProblems] of byPage) {
+    const source = sources.get(page);
+    lines.push(source ? `${source} (${page})` : page);
+    for (const problem of pageProblems) {
+      lines.push(`  - ${problem.url}: ${problem.message}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,66 @@
+import type { SiteConfig } from "./config.js";
+import { escapeHtml } from "./template.js";
+
+// Standalone pages like About or Projects live in pages/, outside the post
+// stream: they have no date, stay out of the index, feeds, archives and
+// search, and can be linked from the site header.
+
+// pages/404.md, or a default, becomes 404.html for GitHub Pages to serve
+// whenever a URL doesn't exist
+export const NOT_FOUND_PAGE = "404";
+
+export interface PageMeta {
+  title: string;
+  // Template to render with instead of page.html, e.g. "wide" for wide.html
+  layout?: string;
+  // Position in the header navigation; pages without it aren't listed
+  nav?: number;
+  // Label for the navigation link, when shorter than the title
+  navTitle?: string;
+  description?: string;
+  // Date of the last significant edit, for sitemap.xml
+  updated?: Date;
+}
+
+export interface Page {
+  slug: string;
+  meta: PageMeta;
+  html: string;
+}
+
+export interface NavLink {
+  title: string;
+  // Relative to the site root
+  url: string;
+}
+
+// Pages with a `nav` position, lowest first; ties are ordered by title
+export function navLinks(pages: Page[]): NavLink[] {
+  return pages
+    .filter((page) => typeof page.meta.nav === "number")
+    .sort(
+      (a, b) =>
+        a.meta.nav! - b.meta.nav! || a.meta.title.localeCompare(b.meta.title)
+    )
+    .map((page) => ({
+      title: page.meta.navTitle ?? page.meta.title,
+      url: `${page.slug}.html`,
+    }));
+}
+
+// The 404 page is served in place of missing URLs at any depth, so its
+// links start from the site's root path instead of being relative
+export function notFoundRoot(site: SiteConfig): string {
+  return new URL(site.baseUrl).pathname;
+}
+
+// Used when pages/ has no 404.md
+export function defaultNotFoundPage(root: string): Page {
+  const home = escapeHtml(`${root}index.html`);
+  const search = escapeHtml(`${root}search.html`);
+  return {
+    slug: NOT_FOUND_PAGE,
+    meta: { title: "Page not found" },
+    html: `<p>Sorry, there's nothing at this address. Try the <a href="${home}">latest posts</a> or <a href="${search}">search</a>.</p>\n`,
+  };
+}
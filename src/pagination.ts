@@ -0,0 +1,36 @@
+// Page 1 is the site index; later pages live under page/
+export const PAGE_DIR = "page";
+
+export interface PaginationLinks {
+  page: number;
+  totalPages: number;
+  // Paths relative to the site root, missing on the first/last page
+  prev?: string;
+  next?: string;
+}
+
+export function pagePath(page: number): string {
+  return page === 1 ? "index.html" : `${PAGE_DIR}/${page}.html`;
+}
+
+// Always returns at least one (possibly empty) page, so the index exists
+// even before the first post
+export function paginate<T>(items: T[], perPage: number): T[][] {
+  const pages: T[][] = [];
+  for (let start = 0; start < items.length; start += perPage) {
+    pages.push(items.slice(start, start + perPage));
+  }
+  return pages.length > 0 ? pages : [[]];
+}
+
+export function paginationLinks(
+  page: number,
+  totalPages: number
+): PaginationLinks {
+  return {
+    page,
+    totalPages,
+    prev: page > 1 ? pagePath(page - 1) : undefined,
+    next: page < totalPages ? pagePath(page + 1) : undefined,
+  };
+}
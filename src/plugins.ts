@@ -0,0 +1,173 @@
+import path from "path";
+import { pathToFileURL } from "url";
+import type { MarkedExtension } from "marked";
+import type { Post, PostMeta } from "./build.js";
+import type { SiteConfig } from "./config.js";
+
+// Plugins customize the build without forking build.ts. Every hook is
+// optional and plugins run in the order they are registered:
+//
+//   onLoadPost    after the frontmatter is parsed, before Markdown rendering
+//   markdown      marked extensions, e.g. shortcodes or custom renderers
+//   templateData  extra variables for every template
+//   onRenderPost  a post page's HTML, before it is written
+//   onBuildEnd    after every page is written, e.g. to add extra files
+//
+// Hooks that receive a value may return a replacement, or change it in place
+// and return nothing.
+
+// A post's source, as seen by onLoadPost
+export interface PostSource {
+  slug: string;
+  meta: PostMeta;
+  // Markdown body
+  content: string;
+}
+
+export interface BuildEndContext {
+  site: SiteConfig;
+  // Posts shown on the index, newest first
+  posts: Post[];
+  // Files written so far, relative to the output directory
+  pages: string[];
+  // Writes a file to the output directory; stale ones are cleaned up like
+  // any other page
+  writeFile(file: string, content: string): Promise<void>;
+}
+
+type Awaitable<T> = T | Promise<T>;
+
+export interface BlogPlugin {
+  name: string;
+  onLoadPost?(source: PostSource): Awaitable<PostSource | void>;
+  markdown?: MarkedExtension[];
+  templateData?: Record<string, unknown>;
+  onRenderPost?(html: string, post: Post): Awaitable<string | void>;
+  onBuildEnd?(build: BuildEndContext): Awaitable<void>;
+}
+
+export class PluginError extends Error {
+  plugin: string;
+
+  // `cause` keeps the original error's stack for plugin authors
+  constructor(plugin: string, message: string, cause?: unknown) {
+    super(`Plugin "${plugin}": ${message}`, { cause });
+    this.name = "PluginError";
+    this.plugin = plugin;
+  }
+}
+
+function isPlugin(value: unknown): value is BlogPlugin {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as BlogPlugin).name === "string"
+  );
+}
+
+// Imports a plugin module. Its default export is the plugin, or a function
+// returning one.
+async function loadPlugin(specifier: string): Promise<BlogPlugin> {
+  const url = path.isAbsolute(specifier)
+    ? pathToFileURL(specifier).href
+    : specifier;
+  let module: { default?: unknown };
+  try {
+    module = await import(url);
+  } catch (error) {
+    throw new PluginError(specifier, (error as Error).message, error);
+  }
+
+  const plugin =
+    typeof module.default === "function"
+      ? await module.default()
+      : module.default;
+  if (!isPlugin(plugin)) {
+    throw new PluginError(
+      specifier,
+      "default export must be a plugin with a name, or a function returning one"
+    );
+  }
+  return plugin;
+}
+
+export async function loadPlugins(specifiers: string[]): Promise<BlogPlugin[]> {
+  const plugins: BlogPlugin[] = [];
+  for (const specifier of specifiers) {
+    plugins.push(await loadPlugin(specifier));
+  }
+  return plugins;
+}
+
+// Runs one plugin hook, naming the plugin in any error it throws
+async function runHook<T>(
+  plugin: BlogPlugin,
+  hook: string,
+  run: () => Awaitable<T>
+): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof PluginError) throw error;
+    throw new PluginError(
+      plugin.name,
+      `${hook} failed: ${(error as Error).message}`,
+      error
+    );
+  }
+}
+
+export async function applyLoadPost(
+  plugins: BlogPlugin[],
+  source: PostSource
+): Promise<PostSource> {
+  let current = source;
+  for (const plugin of plugins) {
+    if (!plugin.onLoadPost) continue;
+    const result = await runHook(plugin, `onLoadPost (${source.slug})`, () =>
+      plugin.onLoadPost!(current)
+    );
+    current = result ?? current;
+  }
+  return current;
+}
+
+export async function applyRenderPost(
+  plugins: BlogPlugin[],
+  html: string,
+  post: Post
+): Promise<string> {
+  let current = html;
+  for (const plugin of plugins) {
+    if (!plugin.onRenderPost) continue;
+    const result = await runHook(plugin, `onRenderPost (${post.slug})`, () =>
+      plugin.onRenderPost!(current, post)
+    );
+    current = result ?? current;
+  }
+  return current;
+}
+
+export async function runBuildEnd(
+  plugins: BlogPlugin[],
+  build: BuildEndContext
+): Promise<void> {
+  for (const plugin of plugins) {
+    if (!plugin.onBuildEnd) continue;
+    await runHook(plugin, "onBuildEnd", () => plugin.onBuildEnd!(build));
+  }
+}
+
+export function markdownExtensions(plugins: BlogPlugin[]): MarkedExtension[] {
+  return plugins.flatMap((plugin) => plugin.markdown ?? []);
+}
+
+// Later plugins win when two set the same variable
+export function pluginTemplateData(
+  plugins: BlogPlugin[]
+): Record<string, unknown> {
+  return Object.assign(
+    {},
+    ...plugins.map((plugin) => plugin.templateData ?? {})
+  );
+}
@@ -0,0 +1,43 @@
+import type { Post } from "./build.js";
+import { tagSlug } from "./tags.js";
+
+export interface AdjacentPosts {
+  // The next older post
+  prev?: Post;
+  // The next newer post
+  next?: Post;
+}
+
+// Expects `posts` ordered by filterPostsForIndex (newest first). Posts that
+// aren't in the list, such as drafts, get no neighbours.
+export function adjacentPosts(post: Post, posts: Post[]): AdjacentPosts {
+  const index = posts.indexOf(post);
+  if (index === -1) return {};
+  return {
+    prev: posts[index + 1],
+    next: index > 0 ? posts[index - 1] : undefined,
+  };
+}
+
+function tagSlugs(post: Post): Set<string> {
+  return new Set((post.meta.tags ?? []).map(tagSlug).filter(Boolean));
+}
+
+// Ranks `posts` by how many tags they share with `post`, best first. Ties
+// keep the order of `posts`, so with filterPostsForIndex order newer posts
+// win. Posts sharing no tags are left out.
+export function relatedPosts(post: Post, posts: Post[], limit: number): Post[] {
+  const tags = tagSlugs(post);
+  if (tags.size === 0 || limit <= 0) return [];
+
+  return posts
+    .filter((other) => other !== post && other.slug !== post.slug)
+    .map((other) => ({
+      other,
+      shared: [...tagSlugs(other)].filter((tag) => tags.has(tag)).length,
+    }))
+    .filter((candidate) => candidate.shared > 0)
+    .sort((a, b) => b.shared - a.shared)
+    .slice(0, limit)
+    .map((candidate) => candidate.other);
+}
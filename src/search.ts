@@ -0,0 +1,48 @@
+import type { Post } from "./build.js";
+import { htmlToText } from "./template.js";
+
+export const SEARCH_INDEX_FILE = "search-index.json";
+
+// Bump when the index shape changes, so search.js can refuse stale indexes
+const SEARCH_INDEX_VERSION = 1;
+
+export interface SearchEntry {
+  url: string;
+  title: string;
+  // YYYY-MM-DD
+  date: string;
+  tags: string[];
+  // Plain text
+  excerpt: string;
+  // Unique body words, space-separated, in order of first appearance
+  words: string;
+}
+
+export interface SearchIndex {
+  version: number;
+  posts: SearchEntry[];
+}
+
+// Must match tokenize() in templates/search.js, which splits queries the
+// same way
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// Expects the posts shown on the index, so drafts never become searchable
+export function buildSearchIndex(posts: Post[]): SearchIndex {
+  return {
+    version: SEARCH_INDEX_VERSION,
+    posts: posts.map((post) => ({
+      url: `${post.slug}.html`,
+      title: post.meta.title,
+      date: new Date(post.meta.date).toISOString().slice(0, 10),
+      tags: post.meta.tags ?? [],
+      excerpt: htmlToText(post.excerpt),
+      // Single letters are too common to be worth storing
+      words: [...new Set(tokenize(htmlToText(post.html)))]
+        .filter((word) => word.length > 1)
+        .join(" "),
+    })),
+  };
+}
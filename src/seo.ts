@@ -0,0 +1,141 @@
+import { localPath } from "./assets.js";
+import type { Post } from "./build.js";
+import type { SiteConfig } from "./config.js";
+import { absoluteUrl } from "./feeds.js";
+import { escapeHtml, htmlToText } from "./template.js";
+
+// Metadata for link previews and search engines: a description, Open Graph
+// and Twitter card tags, a canonical link and schema.org JSON-LD. Layouts
+// include it with {{{head}}}.
+
+// Search engines cut descriptions off at around this many characters
+export const DESCRIPTION_LENGTH = 160;
+
+export interface SeoMeta {
+  title: string;
+  description: string;
+  // Absolute URLs
+  url: string;
+  image?: string;
+  siteName: string;
+  locale: string;
+  author?: string;
+  published: Date;
+  tags: string[];
+}
+
+// Shortens text to at most `length` characters, cutting at a word boundary
+export function truncate(
+  text: string,
+  length: number = DESCRIPTION_LENGTH
+): string {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length - 1);
+  const space = cut.lastIndexOf(" ");
+  return `${(space > 0 ? cut.slice(0, space) : cut).replace(/[\s.,;:]+$/, "")}…`;
+}
+
+// Frontmatter `description`, then `summary`, then the excerpt (or the whole
+// post, if it has none) as plain text
+function postDescription(post: Post): string {
+  const text =
+    post.meta.description ??
+    post.meta.summary ??
+    htmlToText(post.excerpt || post.html);
+  return truncate(text.trim());
+}
+
+// A folder post's image may be one of its own files
+function postImage(post: Post, site: SiteConfig): string | undefined {
+  const { image } = post.meta;
+  if (!image) return undefined;
+  const asset = post.assets?.find((asset) => asset.path === localPath(image));
+  return absoluteUrl(asset?.output ?? image, site.baseUrl);
+}
+
+export function postSeo(post: Post, site: SiteConfig): SeoMeta {
+  return {
+    title: post.meta.title,
+    description: postDescription(post),
+    url: post.meta.canonical ?? absoluteUrl(`${post.slug}.html`, site.baseUrl),
+    image: postImage(post, site),
+    siteName: site.title,
+    locale: site.locale,
+    author: post.meta.author ?? site.author,
+    // Fresh parses keep quoted dates as strings
+    published: new Date(post.meta.date),
+    tags: post.meta.tags ?? [],
+  };
+}
+
+function metaTag(attribute: "name" | "property", key: string, value: string) {
+  return `<meta ${attribute}="${key}" content="${escapeHtml(value)}" />`;
+}
+
+// JSON can't end a <script> element early once "<" is escaped
+function jsonLd(data: Record<string, unknown>): string {
+  const json = JSON.stringify(data).replace(/</g, "\\u003c");
+  return `<script type="application/ld+json">${json}</script>`;
+}
+
+export function renderHead(meta: SeoMeta): string {
+  const tags = [
+    metaTag("name", "description", meta.description),
+    `<link rel="canonical" href="${escapeHtml(meta.url)}" />`,
+    metaTag("property", "og:type", "article"),
+    metaTag("property", "og:title", meta.title),
+    metaTag("property", "og:description", meta.description),
+    metaTag("property", "og:url", meta.url),
+    metaTag("property", "og:site_name", meta.siteName),
+    // Open Graph spells locales with an underscore, e.g. en_US
+    metaTag("property", "og:locale", meta.locale.replace("-", "_")),
+  ];
+  if (meta.image) tags.push(metaTag("property", "og:image", meta.image));
+  tags.push(
+    metaTag("property", "article:published_time", meta.published.toISOString())
+  );
+  if (meta.author) {
+    tags.push(metaTag("property", "article:author", meta.author));
+  }
+  for (const tag of meta.tags) {
+    tags.push(metaTag("property", "article:tag", tag));
+  }
+  tags.push(
+    metaTag(
+      "name",
+      "twitter:card",
+      meta.image ? "summary_large_image" : "summary"
+    ),
+    metaTag("name", "twitter:title", meta.title),
+    metaTag("name", "twitter:description", meta.description)
+  );
+  if (meta.image) tags.push(metaTag("name", "twitter:image", meta.image));
+
+  tags.push(
+    jsonLd({
+      "@context": "https://schema.org",
+      "@type": "BlogPosting",
+      headline: meta.title,
+      description: meta.description,
+      url: meta.url,
+      mainEntityOfPage: meta.url,
+      datePublished: meta.published.toISOString(),
+      ...(meta.image && { image: meta.image }),
+      ...(meta.author && {
+        author: { "@type": "Person", name: meta.author },
+      }),
+      ...(meta.tags.length > 0 && { keywords: meta.tags.join(", ") }),
+      publisher: { "@type": "Organization", name: meta.siteName },
+    })
+  );
+  return tags.join("\n");
+}
+
+// Pages other than posts only get a description: their own, for pages
+// that set one, else the site's
+export function siteHead(
+  site: SiteConfig,
+  description: string = site.description
+): string {
+  return metaTag("name", "description", description);
+}
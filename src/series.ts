@@ -0,0 +1,62 @@
+import type { Post } from "./build.js";
+import { tagSlug } from "./tags.js";
+
+export const SERIES_DIR = "series";
+
+export interface SeriesGroup {
+  name: string;
+  slug: string;
+  // In reading order
+  posts: Post[];
+}
+
+export function seriesSlug(name: string): string {
+  return tagSlug(name);
+}
+
+function seriesOf(post: Post): string | undefined {
+  const name = post.meta.series;
+  return typeof name === "string" && seriesSlug(name) ? name : undefined;
+}
+
+// Posts with a seriesOrder come first, in that order; the rest follow by date
+function compareParts(a: Post, b: Post): number {
+  const orderA = a.meta.seriesOrder ?? Infinity;
+  const orderB = b.meta.seriesOrder ?? Infinity;
+  if (orderA !== orderB) return orderA - orderB;
+  return new Date(a.meta.date).getTime() - new Date(b.meta.date).getTime();
+}
+
+// Expects the posts shown on the index, so drafts are never part of a series.
+// Names that differ only by case are the same series; validateSlugs rejects
+// other names that share a slug.
+export function groupPostsBySeries(posts: Post[]): SeriesGroup[] {
+  const groups = new Map<string, SeriesGroup>();
+
+  for (const post of posts) {
+    const name = seriesOf(post);
+    if (!name) continue;
+    const slug = seriesSlug(name);
+
+    let group = groups.get(slug);
+    if (!group) {
+      group = { name, slug, posts: [] };
+      groups.set(slug, group);
+    }
+    group.posts.push(post);
+  }
+
+  for (const group of groups.values()) group.posts.sort(compareParts);
+  return [...groups.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// The series `post` belongs to, or undefined if it isn't in one (or isn't in
+// `posts`, as drafts aren't)
+export function findSeries(post: Post, posts: Post[]): SeriesGroup | undefined {
+  const name = seriesOf(post);
+  if (!name || !posts.includes(post)) return undefined;
+  const slug = seriesSlug(name);
+  return groupPostsBySeries(
+    posts.filter((other) => seriesSlug(seriesOf(other) ?? "") === slug)
+  )[0];
+}
@@ -0,0 +1,228 @@
+import http from "http";
+import fs from "fs/promises";
+import path from "path";
+import type { AddressInfo } from "net";
+
+export interface DevServerOptions {
+  root: string;
+  port: number;
+}
+
+export interface DevServer {
+  url: string;
+  // Full page reload after a successful rebuild
+  reload(): void;
+  // Swap stylesheets in place when only CSS changed. `stylesheet` is the
+  // newly built, fingerprinted name of styles.css.
+  reloadCss(stylesheet?: string): void;
+  // Show a full-page overlay until the next successful rebuild
+  showError(error: unknown): void;
+  close(): Promise<void>;
+}
+
+export const LIVE_RELOAD_PATH = "/__livereload";
+const KEEP_ALIVE_MS = 15_000;
+
+const MIME_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".xml": "application/xml; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".woff2": "font/woff2",
+};
+
+// Points a stylesheet's URL at `stylesheet` when it is another build of the
+// same file (styles.1a2b3c4d.css → styles.5e6f7a8b.css), since the old one is
+// deleted after a rebuild, and busts the cache. Also runs in the browser, so
+// it must not use anything from outside.
+export function swapStylesheet(href: string, stylesheet?: string): string {
+  const url = new URL(href);
+  const unhashed = (name: string) =>
+    name.replace(/\.[0-9a-f]{8}(\.css)$/, "$1");
+  const dir = url.pathname.slice(0, url.pathname.lastIndexOf("/") + 1);
+  const name = url.pathname.slice(dir.length);
+  if (stylesheet && unhashed(name) === unhashed(stylesheet)) {
+    url.pathname = dir + stylesheet;
+  }
+  url.searchParams.set("livereload", String(Date.now()));
+  return url.href;
+}
+
+// Runs in the browser. "build-error" avoids clashing with EventSource's own
+// "error" event, which fires on connection problems.
+const LIVE_RELOAD_CLIENT = `(() => {
+  const OVERLAY_ID = "__blog-error-overlay";
+  const removeOverlay = () => document.getElementById(OVERLAY_ID)?.remove();
+  const source = new EventSource(${JSON.stringify(LIVE_RELOAD_PATH)});
+  source.addEventListener("reload", () => location.reload());
+  const swapStylesheet = ${swapStylesheet.toString()};
+  source.addEventListener("css", (event) => {
+    removeOverlay();
+    const { stylesheet } = JSON.parse(event.data);
+    for (const link of document.querySelectorAll('link[rel="stylesheet"]')) {
+      link.href = swapStylesheet(link.href, stylesheet);
+    }
+  });
+  source.addEventListener("build-error", (event) => {
+    removeOverlay();
+    const overlay = document.createElement("div");
+    overlay.id = OVERLAY_ID;
+    overlay.style.cssText =
+      "position:fixed;inset:0;z-index:2147483647;overflow:auto;" +
+      "background:rgba(20,20,20,.95);color:#f88;padding:2rem;" +
+      "font:14px/1.5 ui-monospace,Menlo,Consolas,monospace";
+    const title = document.createElement("h2");
+    title.textContent = "Build failed";
+    title.style.color = "#fff";
+    const message = document.createElement("pre");
+    message.textContent = JSON.parse(event.data).message;
+    message.style.whiteSpace = "pre-wrap";
+    overlay.append(title, message);
+    document.body.append(overlay);
+  });
+})();`;
+
+export function injectLiveReload(html: string): string {
+  const script = `<script>${LIVE_RELOAD_CLIENT}</script>`;
+  const bodyEnd = html.lastIndexOf("</body>");
+  if (bodyEnd === -1) return html + script;
+  return `${html.slice(0, bodyEnd)}${script}\n${html.slice(bodyEnd)}`;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+// Maps a request path onto a file under root, refusing to leave it.
+// Directories serve index.html and extensionless paths fall back to .html.
+async function resolveFile(
+  root: string,
+  pathname: string
+): Promise<string | null> {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+
+  const file = path.join(root, path.normalize(decoded));
+  if (file !== root && !file.startsWith(root + path.sep)) return null;
+
+  const candidates = [file, path.join(file, "index.html"), `${file}.html`];
+  for (const candidate of candidates) {
+    try {
+      if ((await fs.stat(candidate)).isFile()) return candidate;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
+
+export async function startDevServer(
+  options: DevServerOptions
+): Promise<DevServer> {
+  const root = path.resolve(options.root);
+  const clients = new Set<http.ServerResponse>();
+  let lastError: string | null = null;
+
+  const send = (client: http.ServerResponse, event: string, data: object) => {
+    client.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const broadcast = (event: string, data: object = {}) => {
+    for (const client of clients) send(client, event, data);
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+    if (pathname === LIVE_RELOAD_PATH) {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.write("retry: 1000\n\n");
+      clients.add(res);
+      // Pages loaded after a failed build still get the overlay
+      if (lastError) send(res, "build-error", { message: lastError });
+      req.on("close", () => clients.delete(res));
+      return;
+    }
+
+    const file = await resolveFile(root, pathname);
+    const notFound = file ? null : await resolveFile(root, "/404.html");
+    if (!file && !notFound) {
+      res.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+      res.end(`Not found: ${pathname}`);
+      return;
+    }
+
+    const served = (file ?? notFound) as string;
+    const type =
+      MIME_TYPES[path.extname(served).toLowerCase()] ??
+      "application/octet-stream";
+    try {
+      let body: Buffer | string = await fs.readFile(served);
+      if (type.startsWith("text/html")) {
+        body = injectLiveReload(body.toString("utf-8"));
+      }
+      res.writeHead(file ? 200 : 404, {
+        "Content-Type": type,
+        "Cache-Control": "no-store",
+      });
+      res.end(body);
+    } catch (error) {
+      res.writeHead(500, { "Content-Type": "text/plain; charset=utf-8" });
+      res.end(describeError(error));
+    }
+  });
+
+  // Comment lines keep idle connections from being dropped by the browser
+  const keepAlive = setInterval(() => {
+    for (const client of clients) client.write(": ping\n\n");
+  }, KEEP_ALIVE_MS);
+  keepAlive.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, () => resolve());
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://localhost:${port}`,
+    reload() {
+      lastError = null;
+      broadcast("reload");
+    },
+    reloadCss(stylesheet?: string) {
+      lastError = null;
+      broadcast("css", { stylesheet });
+    },
+    showError(error: unknown) {
+      lastError = describeError(error);
+      broadcast("build-error", { message: lastError });
+    },
+    async close() {
+      clearInterval(keepAlive);
+      for (const client of clients) client.end();
+      clients.clear();
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
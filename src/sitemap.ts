@@ -0,0 +1,69 @@
+import type { Post } from "./build.js";
+import { absoluteUrl, escapeXml } from "./feeds.js";
+
+// Tells crawlers which pages exist: sitemap.xml lists every indexable page,
+// robots.txt points to it
+
+export const SITEMAP_FILE = "sitemap.xml";
+export const ROBOTS_FILE = "robots.txt";
+
+export interface SitemapEntry {
+  // Relative to the site root
+  url: string;
+  lastmod?: Date;
+}
+
+// A post last changed on its `updated` date, if it has one
+export function postLastmod(post: Post): Date {
+  return new Date(post.meta.updated ?? post.meta.date);
+}
+
+// The most recent lastmod of `posts`, for pages listing them
+export function newestLastmod(posts: Post[]): Date | undefined {
+  const times = posts.map((post) => postLastmod(post).getTime());
+  return times.length > 0 ? new Date(Math.max(...times)) : undefined;
+}
+
+// W3C datetime, date only, e.g. "2024-01-15"
+function formatLastmod(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function renderSitemap(
+  entries: SitemapEntry[],
+  siteUrl: string
+): string {
+  const urls = entries
+    .map((entry) => {
+      const lastmod = entry.lastmod
+        ? `\n    <lastmod>${formatLastmod(entry.lastmod)}</lastmod>`
+        : "";
+      return `
+  <url>
+    <loc>${escapeXml(absoluteUrl(entry.url, siteUrl))}</loc>${lastmod}
+  </url>`;
+    })
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls}
+</urlset>
+`;
+}
+
+export function renderRobots(siteUrl: string): string {
+  return `User-agent: *
+Allow: /
+
+Sitemap: ${absoluteUrl(SITEMAP_FILE, siteUrl)}
+`;
+}
+
+// Crawlers only look for robots.txt at the root of a host, so with a baseUrl
+// like https://example.github.io/blog/ the generated one is ignored. Returns
+// a note saying where its Sitemap line has to go instead.
+export function robotsNote(siteUrl: string): string | undefined {
+  const root = new URL(`/${ROBOTS_FILE}`, siteUrl).toString();
+  if (root === absoluteUrl(ROBOTS_FILE, siteUrl)) return undefined;
+  return `${ROBOTS_FILE}: crawlers only read ${root}, so add "Sitemap: ${absoluteUrl(SITEMAP_FILE, siteUrl)}" there`;
+}
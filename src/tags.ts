@@ -0,0 +1,68 @@
+import type { Post } from "./build.js";
+
+export interface TagGroup {
+  name: string;
+  slug: string;
+  posts: Post[];
+}
+
+// Keeps letters and digits in any script, like headingSlug, so "日本語" gets
+// a page too. Names with neither have no slug: validation reports them.
+export function tagSlug(tag: string): string {
+  return tag
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Slugs shared by names that differ by more than case, like "C++" and "C#",
+// mapped to those names. Their pages would overwrite each other.
+export function slugCollisions(
+  names: Iterable<string>,
+  slug: (name: string) => string
+): Map<string, string[]> {
+  const bySlug = new Map<string, Map<string, string>>();
+  for (const name of names) {
+    const key = slug(name);
+    if (!key) continue;
+    const spellings = bySlug.get(key) ?? new Map<string, string>();
+    bySlug.set(key, spellings);
+    const folded = name.trim().toLowerCase();
+    if (!spellings.has(folded)) spellings.set(folded, name);
+  }
+
+  const collisions = new Map<string, string[]>();
+  for (const [key, spellings] of bySlug) {
+    if (spellings.size > 1) collisions.set(key, [...spellings.values()].sort());
+  }
+  return collisions;
+}
+
+// Expects posts already filtered and sorted by filterPostsForIndex, so each
+// group keeps the newest-first order. Groups are sorted alphabetically.
+export function groupPostsByTag(posts: Post[]): TagGroup[] {
+  const groups = new Map<string, TagGroup>();
+
+  for (const post of posts) {
+    for (const tag of post.meta.tags ?? []) {
+      const slug = tagSlug(tag);
+      if (!slug) continue;
+
+      let group = groups.get(slug);
+      if (!group) {
+        group = { name: tag, slug, posts: [] };
+        groups.set(slug, group);
+      }
+      if (!group.posts.includes(post)) group.posts.push(post);
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Maps a tag's post count onto a 1-5 weight for the tag cloud
+export function tagWeight(count: number, maxCount: number): number {
+  if (maxCount <= 1) return 1;
+  return 1 + Math.round(((count - 1) / (maxCount - 1)) * 4);
+}
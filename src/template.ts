@@ -0,0 +1,393 @@
+import path from "path";
+import { nodeFileSystem } from "./filesystem.js";
+import type { FileSystem } from "./filesystem.js";
+
+// A small Mustache/Handlebars-style template language:
+//
+//   {{name}}, {{post.title}}      HTML-escaped value
+//   {{{content}}}                 raw (unescaped) value
+//   {{#if x}}..{{else}}..{{/if}}  conditional, also {{#unless x}}
+//   {{#each xs}}..{{else}}..{{/each}}
+//                                 loop; inside, names resolve against the
+//                                 current item first, then outer scopes, and
+//                                 {{this}}, {{@index}}, {{@first}}, {{@last}}
+//                                 are available
+//   {{> header}}                  include templates/partials/header.html
+//   {{< base}}                    (first tag only) render inside
+//                                 templates/layouts/base.html as {{{body}}}
+//   {{! comment }}                ignored
+
+export interface TemplateLibrary {
+  partials: Record<string, string>;
+  layouts: Record<string, string>;
+}
+
+export const EMPTY_LIBRARY: TemplateLibrary = { partials: {}, layouts: {} };
+
+export class TemplateError extends Error {
+  constructor(template: string, line: number, message: string) {
+    super(`${template}:${line}: ${message}`);
+    this.name = "TemplateError";
+  }
+}
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "var"; path: string; raw: boolean }
+  | { type: "partial"; name: string; line: number }
+  | {
+      type: "if";
+      path: string;
+      negate: boolean;
+      body: Node[];
+      alternate: Node[];
+    }
+  | { type: "each"; path: string; body: Node[]; alternate: Node[] };
+
+type BlockNode = Extract<Node, { type: "if" | "each" }>;
+
+interface CompiledTemplate {
+  layout?: string;
+  nodes: Node[];
+}
+
+const TAG_PATTERN = /\{\{\{\s*([\s\S]+?)\s*\}\}\}|\{\{\s*([\s\S]+?)\s*\}\}/g;
+const STANDALONE_TAG = /^[#/!<>]|^else$/;
+const MAX_PARTIAL_DEPTH = 20;
+
+const compiled = new Map<string, CompiledTemplate>();
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Plain text of an HTML fragment: tags and comments removed, the entities
+// escapeHtml produces decoded and whitespace collapsed
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function lineAt(source: string, offset: number): number {
+  return source.slice(0, offset).split("\n").length;
+}
+
+export function compileTemplate(
+  source: string,
+  name: string = "template"
+): CompiledTemplate {
+  const cached = compiled.get(source);
+  if (cached) return cached;
+
+  const root: Node[] = [];
+  // Each open block remembers which branch new nodes are appended to
+  const stack: { node: BlockNode; line: number; inElse: boolean }[] = [];
+  let layout: string | undefined;
+  let textStart = 0;
+
+  const current = (): Node[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.alternate : top.node.body;
+  };
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const offset = match.index ?? 0;
+    const line = lineAt(source, offset);
+    let textEnd = offset;
+    let tagEnd = offset + match[0].length;
+
+    // Like Mustache, a block tag alone on its line leaves no blank line behind
+    if (match[2] !== undefined && STANDALONE_TAG.test(match[2])) {
+      const lineStart = source.lastIndexOf("\n", offset - 1) + 1;
+      const after = source.slice(tagEnd).match(/^[ \t]*(\r?\n|$)/);
+      if (
+        after &&
+        lineStart >= textStart &&
+        source.slice(lineStart, offset).trim() === ""
+      ) {
+        textEnd = lineStart;
+        tagEnd += after[0].length;
+      }
+    }
+
+    const text = source.slice(textStart, textEnd);
+    if (text) current().push({ type: "text", value: text });
+    textStart = tagEnd;
+
+    if (match[1] !== undefined) {
+      current().push({ type: "var", path: match[1], raw: true });
+      continue;
+    }
+
+    const tag = match[2];
+    if (tag.startsWith("!")) continue;
+
+    if (tag.startsWith("<")) {
+      if (root.some((node) => node.type !== "text" || node.value.trim())) {
+        throw new TemplateError(name, line, "layout must be the first tag");
+      }
+      root.length = 0;
+      layout = tag.slice(1).trim();
+      continue;
+    }
+
+    if (tag.startsWith(">")) {
+      current().push({ type: "partial", name: tag.slice(1).trim(), line });
+      continue;
+    }
+
+    if (tag.startsWith("&")) {
+      current().push({ type: "var", path: tag.slice(1).trim(), raw: true });
+      continue;
+    }
+
+    if (tag.startsWith("#")) {
+      const [keyword, arg] = tag.slice(1).trim().split(/\s+/, 2);
+      if (!arg) {
+        throw new TemplateError(name, line, `{{#${keyword}}} needs a value`);
+      }
+      let node: BlockNode;
+      if (keyword === "if" || keyword === "unless") {
+        node = {
+          type: "if",
+          path: arg,
+          negate: keyword === "unless",
+          body: [],
+          alternate: [],
+        };
+      } else if (keyword === "each") {
+        node = { type: "each", path: arg, body: [], alternate: [] };
+      } else {
+        throw new TemplateError(name, line, `unknown block {{#${keyword}}}`);
+      }
+      current().push(node);
+      stack.push({ node, line, inElse: false });
+      continue;
+    }
+
+    if (tag === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw new TemplateError(name, line, "unexpected {{else}}");
+      }
+      top.inElse = true;
+      continue;
+    }
+
+    if (tag.startsWith("/")) {
+      const keyword = tag.slice(1).trim();
+      const top = stack.pop();
+      const expected =
+        top?.node.type === "if"
+          ? top.node.negate
+            ? "unless"
+            : "if"
+          : top?.node.type;
+      if (!top || expected !== keyword) {
+        throw new TemplateError(name, line, `unexpected {{/${keyword}}}`);
+      }
+      continue;
+    }
+
+    current().push({ type: "var", path: tag, raw: false });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateError(
+      name,
+      unclosed.line,
+      `unclosed {{#${unclosed.node.type}}} block`
+    );
+  }
+
+  const rest = source.slice(textStart);
+  if (rest) root.push({ type: "text", value: rest });
+
+  const template = { layout, nodes: root };
+  compiled.set(source, template);
+  return template;
+}
+
+// Scopes are searched innermost first, so loop items shadow outer values
+function lookup(scopes: unknown[], keyPath: string): unknown {
+  if (keyPath === "this" || keyPath === ".") return scopes[scopes.length - 1];
+
+  const [head, ...rest] = keyPath.split(".");
+  let value: unknown;
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    if (scope !== null && typeof scope === "object" && head in scope) {
+      value = (scope as Record<string, unknown>)[head];
+      break;
+    }
+  }
+
+  for (const key of rest) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null || value === false) return "";
+  return String(value);
+}
+
+function renderNodes(
+  nodes: Node[],
+  scopes: unknown[],
+  library: TemplateLibrary,
+  name: string,
+  depth: number
+): string {
+  let output = "";
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.value;
+        break;
+      case "var": {
+        const value = stringify(lookup(scopes, node.path));
+        output += node.raw ? value : escapeHtml(value);
+        break;
+      }
+      case "if": {
+        const pass = isTruthy(lookup(scopes, node.path)) !== node.negate;
+        output += renderNodes(
+          pass ? node.body : node.alternate,
+          scopes,
+          library,
+          name,
+          depth
+        );
+        break;
+      }
+      case "each": {
+        const items = lookup(scopes, node.path);
+        if (!Array.isArray(items) || items.length === 0) {
+          output += renderNodes(node.alternate, scopes, library, name, depth);
+          break;
+        }
+        items.forEach((item, index) => {
+          const loop = {
+            "@index": index,
+            "@first": index === 0,
+            "@last": index === items.length - 1,
+          };
+          output += renderNodes(
+            node.body,
+            [...scopes, loop, item],
+            library,
+            name,
+            depth
+          );
+        });
+        break;
+      }
+      case "partial": {
+        const source = library.partials[node.name];
+        if (source === undefined) {
+          throw new TemplateError(
+            name,
+            node.line,
+            `unknown partial "${node.name}"`
+          );
+        }
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new TemplateError(
+            name,
+            node.line,
+            `partials nested more than ${MAX_PARTIAL_DEPTH} deep`
+          );
+        }
+        const partialName = `partials/${node.name}`;
+        output += renderNodes(
+          compileTemplate(source, partialName).nodes,
+          scopes,
+          library,
+          partialName,
+          depth + 1
+        );
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+export function renderTemplate(
+  source: string,
+  data: Record<string, unknown>,
+  library: TemplateLibrary = EMPTY_LIBRARY,
+  name: string = "template"
+): string {
+  const template = compileTemplate(source, name);
+  const body = renderNodes(template.nodes, [data], library, name, 0);
+  if (!template.layout) return body;
+
+  const layout = library.layouts[template.layout];
+  if (layout === undefined) {
+    throw new TemplateError(name, 1, `unknown layout "${template.layout}"`);
+  }
+  return renderTemplate(
+    layout,
+    { ...data, body },
+    library,
+    `layouts/${template.layout}`
+  );
+}
+
+async function readTemplateDir(
+  dir: string,
+  files: FileSystem
+): Promise<Record<string, string>> {
+  const templates: Record<string, string> = {};
+  let names: string[];
+  try {
+    names = await files.readdir(dir);
+  } catch {
+    // Directory is optional
+    return templates;
+  }
+
+  for (const name of names) {
+    if (!name.endsWith(".html")) continue;
+    templates[name.replace(/\.html$/, "")] = await files.readFile(
+      path.join(dir, name)
+    );
+  }
+  return templates;
+}
+
+export async function loadTemplateLibrary(
+  templatesDir: string,
+  files: FileSystem = nodeFileSystem
+): Promise<TemplateLibrary> {
+  const [partials, layouts] = await Promise.all([
+    readTemplateDir(path.join(templatesDir, "partials"), files),
+    readTemplateDir(path.join(templatesDir, "layouts"), files),
+  ]);
+  return { partials, layouts };
+}
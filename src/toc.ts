@@ -0,0 +1,70 @@
+import type { MarkedExtension } from "marked";
+import { escapeHtml, htmlToText } from "./template.js";
+
+export interface Heading {
+  level: number;
+  // Plain text, unescaped
+  text: string;
+  id: string;
+}
+
+export interface TocEntry {
+  id: string;
+  text: string;
+  level: number;
+  children: TocEntry[];
+}
+
+// Keeps letters and digits in any script, so non-English headings still get
+// readable ids
+export function headingSlug(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "") || "section"
+  );
+}
+
+// Gives every heading an id that's unique within the post, numbering repeats
+// like GitHub does ("setup", "setup-1", ...), and a permalink anchor. Each
+// heading is also pushed onto `headings`, so use a fresh array per post.
+export function headingExtension(headings: Heading[]): MarkedExtension {
+  const used = new Set<string>();
+
+  return {
+    renderer: {
+      heading(html, level) {
+        const text = htmlToText(html);
+        const base = headingSlug(text);
+        let id = base;
+        for (let n = 1; used.has(id); n++) id = `${base}-${n}`;
+        used.add(id);
+        headings.push({ level, text, id });
+
+        const label = escapeHtml(`Permalink to “${text}”`);
+        return `<h${level} id="${id}">${html} <a class="heading-anchor" href="#${id}" aria-label="${label}">#</a></h${level}>\n`;
+      },
+    },
+  };
+}
+
+// Nests headings under the closest preceding heading of a higher level. The
+// post title is the page's <h1>, so top-level "#" headings are left out.
+export function buildToc(headings: Heading[]): TocEntry[] {
+  const root: TocEntry[] = [];
+  const stack: TocEntry[] = [];
+
+  for (const heading of headings) {
+    if (heading.level < 2) continue;
+    const entry: TocEntry = { ...heading, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= entry.level) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    (parent ? parent.children : root).push(entry);
+    stack.push(entry);
+  }
+
+  return root;
+}
@@ -0,0 +1,396 @@
+import { seriesSlug } from "./series.js";
+import { slugCollisions, tagSlug } from "./tags.js";
+
+export type Severity = "error" | "warning";
+
+export interface Diagnostic {
+  file: string;
+  field: string;
+  line: number;
+  severity: Severity;
+  message: string;
+}
+
+export class ValidationError extends Error {
+  diagnostics: Diagnostic[];
+
+  constructor(diagnostics: Diagnostic[]) {
+    const errors = diagnostics.filter((d) => d.severity === "error");
+    super(
+      `Frontmatter validation failed with ${errors.length} error(s):\n` +
+        errors.map(formatDiagnostic).join("\n")
+    );
+    this.name = "ValidationError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+const KNOWN_FIELDS = [
+  "title",
+  "date",
+  "updated",
+  "tags",
+  "draft",
+  "summary",
+  "toc",
+  "series",
+  "seriesOrder",
+  "description",
+  "image",
+  "author",
+  "canonical",
+];
+
+const PAGE_FIELDS = [
+  "title",
+  "updated",
+  "description",
+  "layout",
+  "nav",
+  "navTitle",
+];
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  return `${diagnostic.file}:${diagnostic.line}: ${diagnostic.severity}: ${diagnostic.field}: ${diagnostic.message}`;
+}
+
+export function hasErrors(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some((d) => d.severity === "error");
+}
+
+// Returns the 1-based line number of each top-level frontmatter key. Keys are
+// looked up in the raw source because gray-matter doesn't keep positions.
+function frontmatterLines(fileContent: string): Map<string, number> {
+  const lines = fileContent.split(/\r?\n/);
+  const fields = new Map<string, number>();
+  if (lines[0]?.trim() !== "---") return fields;
+
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trim() === "---") break;
+    const match = lines[i].match(/^([A-Za-z_][\w-]*)\s*:/);
+    if (match && !fields.has(match[1])) fields.set(match[1], i + 1);
+  }
+
+  return fields;
+}
+
+// gray-matter throws js-yaml's YAMLException for frontmatter that isn't
+// valid YAML. Its line count starts at the opening "---", so it matches the
+// file's. Returns undefined for any other error.
+export function yamlErrorDiagnostic(
+  file: string,
+  error: unknown
+): Diagnostic | undefined {
+  if (!(error instanceof Error) || error.name !== "YAMLException") {
+    return undefined;
+  }
+  const { mark, reason } = error as Error & {
+    mark?: { line: number };
+    reason?: string;
+  };
+  return {
+    file,
+    field: "frontmatter",
+    line: mark ? mark.line + 1 : 1,
+    severity: "error",
+    message: `invalid YAML: ${reason ?? error.message}`,
+  };
+}
+
+function isValidDate(value: unknown): boolean {
+  if (value instanceof Date) return !isNaN(value.getTime());
+  if (typeof value === "string") return !isNaN(new Date(value).getTime());
+  return false;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+type Report = (field: string, severity: Severity, message: string) => void;
+
+// Collects diagnostics for `file`, placed on the line of their field
+function reporter(
+  file: string,
+  fileContent: string
+): { diagnostics: Diagnostic[]; lines: Map<string, number>; report: Report } {
+  const diagnostics: Diagnostic[] = [];
+  const lines = frontmatterLines(fileContent);
+  const report: Report = (field, severity, message) => {
+    diagnostics.push({
+      file,
+      field,
+      line: lines.get(field) ?? 1,
+      severity,
+      message,
+    });
+  };
+  return { diagnostics, lines, report };
+}
+
+function checkTitle(title: unknown, report: Report): void {
+  if (title === undefined || title === null) {
+    report("title", "error", "is required");
+  } else if (typeof title !== "string") {
+    report("title", "error", `must be a string, got ${typeof title}`);
+  } else if (title.trim() === "") {
+    report("title", "error", "must not be empty");
+  }
+}
+
+export function validateFrontmatter(
+  file: string,
+  fileContent: string,
+  data: Record<string, unknown>
+): Diagnostic[] {
+  const { diagnostics, lines, report } = reporter(file, fileContent);
+
+  if (lines.size === 0) {
+    report("frontmatter", "error", "missing YAML frontmatter block");
+    return diagnostics;
+  }
+
+  checkTitle(data.title, report);
+
+  if (data.date === undefined || data.date === null) {
+    report("date", "error", "is required");
+  } else if (!isValidDate(data.date)) {
+    report("date", "error", `"${String(data.date)}" is not a valid date`);
+  } else if (typeof data.date === "string") {
+    report("date", "warning", "should be written as YYYY-MM-DD");
+  }
+
+  if (data.updated !== undefined && data.updated !== null) {
+    if (!isValidDate(data.updated)) {
+      report(
+        "updated",
+        "error",
+        `"${String(data.updated)}" is not a valid date`
+      );
+    } else if (
+      isValidDate(data.date) &&
+      new Date(data.updated as Date).getTime() <
+        new Date(data.date as Date).getTime()
+    ) {
+      report("updated", "warning", "is earlier than date");
+    }
+  }
+
+  if (data.tags !== undefined && data.tags !== null) {
+    if (!Array.isArray(data.tags)) {
+      report(
+        "tags",
+        "error",
+        `must be a list, e.g. [${String(data.tags)}], got ${typeof data.tags}`
+      );
+    } else if (data.tags.some((tag) => typeof tag !== "string")) {
+      report("tags", "error", "must only contain strings");
+    } else {
+      for (const tag of data.tags) {
+        const slug = tagSlug(tag);
+        if (!slug) {
+          report(
+            "tags",
+            "error",
+            `"${tag}" needs a letter or digit for its URL`
+          );
+        } else if (slug === "index") {
+          report(
+            "tags",
+            "error",
+            `"${tag}" would replace the tag overview, tags/index.html`
+          );
+        }
+      }
+    }
+  }
+
+  if (
+    data.draft !== undefined &&
+    data.draft !== null &&
+    typeof data.draft !== "boolean"
+  ) {
+    report("draft", "error", `must be true or false, got ${typeof data.draft}`);
+  }
+
+  if (
+    data.toc !== undefined &&
+    data.toc !== null &&
+    typeof data.toc !== "boolean"
+  ) {
+    report("toc", "error", `must be true or false, got ${typeof data.toc}`);
+  }
+
+  if (
+    data.summary !== undefined &&
+    data.summary !== null &&
+    typeof data.summary !== "string"
+  ) {
+    report("summary", "error", `must be a string, got ${typeof data.summary}`);
+  }
+
+  if (data.series !== undefined && data.series !== null) {
+    if (typeof data.series !== "string" || data.series.trim() === "") {
+      report("series", "error", "must be a non-empty string");
+    } else if (!seriesSlug(data.series)) {
+      report(
+        "series",
+        "error",
+        `"${data.series}" needs a letter or digit for its URL`
+      );
+    }
+  }
+
+  if (data.seriesOrder !== undefined && data.seriesOrder !== null) {
+    if (typeof data.seriesOrder !== "number" || isNaN(data.seriesOrder)) {
+      report(
+        "seriesOrder",
+        "error",
+        `must be a number, got ${typeof data.seriesOrder}`
+      );
+    } else if (data.series === undefined || data.series === null) {
+      report("seriesOrder", "warning", "has no effect without series");
+    }
+  }
+
+  for (const field of ["description", "image", "author"]) {
+    const value = data[field];
+    if (value !== undefined && value !== null && typeof value !== "string") {
+      report(field, "error", `must be a string, got ${typeof value}`);
+    }
+  }
+
+  if (data.canonical !== undefined && data.canonical !== null) {
+    if (typeof data.canonical !== "string" || !isHttpUrl(data.canonical)) {
+      report("canonical", "error", "must be an absolute http(s) URL");
+    }
+  }
+
+  for (const field of Object.keys(data)) {
+    if (!KNOWN_FIELDS.includes(field)) {
+      report(field, "warning", "is not a known frontmatter field");
+    }
+  }
+
+  return diagnostics;
+}
+
+export interface PostSource {
+  file: string;
+  fileContent: string;
+  data: Record<string, unknown>;
+}
+
+const SLUG_FIELDS = [
+  {
+    field: "tags",
+    slug: tagSlug,
+    names: (data: Record<string, unknown>): string[] =>
+      Array.isArray(data.tags)
+        ? data.tags.filter((tag) => typeof tag === "string")
+        : [],
+  },
+  {
+    field: "series",
+    slug: seriesSlug,
+    names: (data: Record<string, unknown>): string[] =>
+      typeof data.series === "string" ? [data.series] : [],
+  },
+];
+
+// Tag and series pages are named by slug, so differently named tags or
+// series that share one would overwrite each other's page. Checked across
+// all posts, and reported on each post using one of the names.
+export function validateSlugs(sources: PostSource[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  for (const { field, slug, names } of SLUG_FIELDS) {
+    const collisions = slugCollisions(
+      sources.flatMap((source) => names(source.data)),
+      slug
+    );
+    if (collisions.size === 0) continue;
+
+    for (const source of sources) {
+      const { diagnostics: found, report } = reporter(
+        source.file,
+        source.fileContent
+      );
+      const slugs = new Set(names(source.data).map(slug));
+      for (const key of slugs) {
+        const shared = collisions.get(key);
+        if (!shared) continue;
+        const list = shared.map((name) => `"${name}"`).join(", ");
+        report(field, "error", `${list} share the URL slug ${key}`);
+      }
+      diagnostics.push(...found);
+    }
+  }
+
+  return diagnostics;
+}
+
+// Pages (see pages.ts) have their own, shorter list of fields. `templates`
+// names the templates a `layout` may pick, when known.
+export function validatePageFrontmatter(
+  file: string,
+  fileContent: string,
+  data: Record<string, unknown>,
+  templates?: Set<string>
+): Diagnostic[] {
+  const { diagnostics, lines, report } = reporter(file, fileContent);
+
+  if (lines.size === 0) {
+    report("frontmatter", "error", "missing YAML frontmatter block");
+    return diagnostics;
+  }
+
+  checkTitle(data.title, report);
+
+  if (
+    data.updated !== undefined &&
+    data.updated !== null &&
+    !isValidDate(data.updated)
+  ) {
+    report("updated", "error", `"${String(data.updated)}" is not a valid date`);
+  }
+
+  for (const field of ["description", "navTitle"]) {
+    const value = data[field];
+    if (value !== undefined && value !== null && typeof value !== "string") {
+      report(field, "error", `must be a string, got ${typeof value}`);
+    }
+  }
+
+  if (data.layout !== undefined && data.layout !== null) {
+    if (typeof data.layout !== "string" || !/^[\w-]+$/.test(data.layout)) {
+      report(
+        "layout",
+        "error",
+        "must be a template name, e.g. wide for templates/wide.html"
+      );
+    } else if (templates && !templates.has(data.layout)) {
+      report("layout", "error", `no template named ${data.layout}.html`);
+    }
+  }
+
+  if (data.nav !== undefined && data.nav !== null) {
+    if (typeof data.nav !== "number" || isNaN(data.nav)) {
+      report("nav", "error", `must be a number, got ${typeof data.nav}`);
+    }
+  } else if (data.navTitle !== undefined && data.navTitle !== null) {
+    report("navTitle", "warning", "has no effect without nav");
+  }
+
+  for (const field of Object.keys(data)) {
+    if (!PAGE_FIELDS.includes(field)) {
+      report(field, "warning", "is not a known page frontmatter field");
+    }
+  }
+
+  return diagnostics;
+}
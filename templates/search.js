@@ -0,0 +1,154 @@
+// Searches search-index.json in the browser; no server needed. Loaded as a
+// module by search.html. The pure functions are exported for tests.
+
+const INDEX_VERSION = 1;
+const MAX_RESULTS = 50;
+
+// Field weights for a query word found in each field
+const WEIGHTS = { title: 10, tags: 6, excerpt: 3, words: 1 };
+
+// Must split text the same way as tokenize() in src/search.ts
+export function tokenize(text) {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// Scores one query word against a field's words: whole-word matches count
+// double, prefix matches ("typ" for "typescript") once
+function fieldScore(fieldWords, queryWord) {
+  let score = 0;
+  for (const word of fieldWords) {
+    if (word === queryWord) score = Math.max(score, 2);
+    else if (word.startsWith(queryWord)) score = Math.max(score, 1);
+  }
+  return score;
+}
+
+// Returns matching posts, best first. Every query word has to match
+// somewhere in a post; ties keep the newest post first.
+export function search(index, query) {
+  const queryWords = [...new Set(tokenize(query))];
+  if (queryWords.length === 0) return [];
+
+  const results = [];
+  for (const post of index.posts) {
+    const fields = {
+      title: tokenize(post.title),
+      tags: post.tags.flatMap(tokenize),
+      excerpt: tokenize(post.excerpt),
+      words: post.words.split(" "),
+    };
+    let total = 0;
+    let matchedAll = true;
+    for (const queryWord of queryWords) {
+      let score = 0;
+      for (const [field, weight] of Object.entries(WEIGHTS)) {
+        score += fieldScore(fields[field], queryWord) * weight;
+      }
+      if (score === 0) {
+        matchedAll = false;
+        break;
+      }
+      total += score;
+    }
+    if (matchedAll) results.push({ post, score: total });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || b.post.date.localeCompare(a.post.date))
+    .slice(0, MAX_RESULTS)
+    .map((result) => result.post);
+}
+
+// Splits text into plain and matched parts, so callers can wrap matches in
+// <mark> without building HTML from strings
+export function highlight(text, query) {
+  // Tokens are only letters and digits, so they need no regex escaping.
+  // Longest first, so "types" wins over "type".
+  const words = tokenize(query).sort((a, b) => b.length - a.length);
+  if (words.length === 0) return [{ text, match: false }];
+
+  // Matches start at a word boundary, like the prefix matching in search().
+  // split() with a capturing group puts the matches at odd indexes.
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${words.join("|")})`, "giu");
+  return text
+    .split(pattern)
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter((part) => part.text !== "");
+}
+
+function renderHighlighted(element, text, query) {
+  for (const part of highlight(text, query)) {
+    if (part.match) {
+      const mark = document.createElement("mark");
+      mark.textContent = part.text;
+      element.append(mark);
+    } else {
+      element.append(part.text);
+    }
+  }
+}
+
+function renderResults(list, status, results, query) {
+  list.replaceChildren();
+  if (!query.trim()) {
+    status.textContent = "";
+    return;
+  }
+  status.textContent =
+    results.length === 1 ? "1 post found" : `${results.length} posts found`;
+
+  for (const post of results) {
+    const item = document.createElement("li");
+    const heading = document.createElement("h2");
+    const link = document.createElement("a");
+    link.href = new URL(post.url, import.meta.url).href;
+    renderHighlighted(link, post.title, query);
+    heading.append(link);
+
+    const date = document.createElement("time");
+    date.dateTime = post.date;
+    date.textContent = post.date;
+
+    const excerpt = document.createElement("p");
+    renderHighlighted(excerpt, post.excerpt, query);
+
+    item.append(heading, date, excerpt);
+    list.append(item);
+  }
+}
+
+async function init() {
+  const input = document.getElementById("search-input");
+  const status = document.getElementById("search-status");
+  const list = document.getElementById("search-results");
+  if (!input || !status || !list) return;
+
+  let index;
+  try {
+    const response = await fetch(new URL("search-index.json", import.meta.url));
+    index = await response.json();
+    if (index.version !== INDEX_VERSION) throw new Error("outdated index");
+  } catch {
+    status.textContent = "Search is unavailable right now.";
+    return;
+  }
+
+  const update = () => {
+    const query = input.value;
+    renderResults(list, status, search(index, query), query);
+    const url = new URL(location.href);
+    if (query) url.searchParams.set("q", query);
+    else url.searchParams.delete("q");
+    history.replaceState(null, "", url);
+  };
+
+  input.value = new URLSearchParams(location.search).get("q") ?? "";
+  input.addEventListener("input", update);
+  input.form?.addEventListener("submit", (event) => {
+    event.preventDefault();
+    update();
+  });
+  update();
+}
+
+if (typeof document !== "undefined") init();
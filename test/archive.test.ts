@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { archivePath, formatMonth, groupPostsByMonth } from "../src/archive.js";
+import { filterPostsForIndex } from "../src/build.js";
+import { makePost } from "./helpers.js";
+
+describe("groupPostsByMonth", () => {
+  it("groups posts by year and month, newest first", () => {
+    const posts = filterPostsForIndex([
+      makePost("a", { date: new Date("2023-12-31") }),
+      makePost("b", { date: new Date("2024-01-01") }),
+      makePost("c", { date: new Date("2024-03-10") }),
+      makePost("d", { date: new Date("2024-03-02") }),
+    ]);
+    const years = groupPostsByMonth(posts);
+
+    expect(years.map((year) => year.year)).toEqual([2024, 2023]);
+    expect(years[0].months.map((month) => month.month)).toEqual([3, 1]);
+    expect(years[0].months[0].posts.map((post) => post.slug)).toEqual([
+      "c",
+      "d",
+    ]);
+    expect(years[0].posts.map((post) => post.slug)).toEqual(["c", "d", "b"]);
+  });
+
+  it("returns no years for no posts", () => {
+    expect(groupPostsByMonth([])).toEqual([]);
+  });
+});
+
+describe("archivePath", () => {
+  it("builds year and zero-padded month paths", () => {
+    expect(archivePath(2024)).toBe("archive/2024/index.html");
+    expect(archivePath(2024, 3)).toBe("archive/2024/03/index.html");
+  });
+});
+
+describe("formatMonth", () => {
+  it("formats the month name in the site locale", () => {
+    expect(formatMonth(2024, 1, "en-US")).toBe("January 2024");
+  });
+});
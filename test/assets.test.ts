@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  collectAssets,
+  fingerprint,
+  isRelativeUrl,
+  localPath,
+  referencedPaths,
+  resolvePostUrls,
+} from "../src/assets.js";
+import type { PostAsset } from "../src/assets.js";
+import { createMemoryFileSystem } from "../src/filesystem.js";
+
+describe("fingerprint", () => {
+  it("adds a content hash before the extension", () => {
+    expect(fingerprint("images/cat.png", "meow")).toMatch(
+      /^images\/cat\.[0-9a-f]{8}\.png$/
+    );
+    expect(fingerprint("a.css", "x")).not.toBe(fingerprint("a.css", "y"));
+    expect(fingerprint("LICENSE", "x")).toMatch(/^LICENSE\.[0-9a-f]{8}$/);
+  });
+});
+
+describe("isRelativeUrl", () => {
+  it("only accepts URLs relative to the page", () => {
+    expect(isRelativeUrl("cat.png")).toBe(true);
+    expect(isRelativeUrl("../tags/x.html")).toBe(true);
+    expect(isRelativeUrl("https://example.com/")).toBe(false);
+    expect(isRelativeUrl("mailto:me@example.com")).toBe(false);
+    expect(isRelativeUrl("/root.html")).toBe(false);
+    expect(isRelativeUrl("#intro")).toBe(false);
+    expect(isRelativeUrl("")).toBe(false);
+  });
+});
+
+describe("localPath", () => {
+  it("normalizes paths inside the post's folder", () => {
+    expect(localPath("./images/my%20cat.png?v=2#x")).toBe("images/my cat.png");
+    expect(localPath("../other/cat.png")).toBeUndefined();
+    expect(localPath("https://example.com/cat.png")).toBeUndefined();
+  });
+});
+
+describe("referencedPaths", () => {
+  it("lists local src and href values once each", () => {
+    const html = `<img src="cat.png"><a href="cat.png">big</a>
+<a href="https://example.com">x</a><a href='notes.pdf'>notes</a>`;
+
+    expect(referencedPaths(html)).toEqual(["cat.png", "notes.pdf"]);
+  });
+});
+
+describe("resolvePostUrls", () => {
+  const assets: PostAsset[] = [
+    {
+      path: "images/cat.png",
+      source: "posts/trip/images/cat.png",
+      output: "assets/trip/images/cat.1234abcd.png",
+    },
+  ];
+  const html = `<img src="./images/cat.png" alt="Cat"> <a href="other.html?a=1&amp;b=2">x</a> <a href="#top">top</a>`;
+
+  it("points assets at their fingerprinted paths", () => {
+    expect(resolvePostUrls(html, assets)).toBe(
+      `<img src="assets/trip/images/cat.1234abcd.png" alt="Cat"> <a href="other.html?a=1&amp;b=2">x</a> <a href="#top">top</a>`
+    );
+  });
+
+  it("rebases relative URLs for pages in subdirectories", () => {
+    expect(resolvePostUrls(html, assets, "../")).toBe(
+      `<img src="../assets/trip/images/cat.1234abcd.png" alt="Cat"> <a href="../other.html?a=1&amp;b=2">x</a> <a href="#top">top</a>`
+    );
+  });
+});
+
+describe("collectAssets", () => {
+  it("reads the referenced files that exist", async () => {
+    const fs = createMemoryFileSystem({
+      "posts/trip/index.md": "---\n---\n",
+      "posts/trip/cat.png": "meow",
+    });
+
+    const assets = await collectAssets(
+      "posts/trip",
+      "trip",
+      ["cat.png", "missing.png"],
+      fs
+    );
+
+    expect(assets).toEqual([
+      {
+        path: "cat.png",
+        source: "posts/trip/cat.png",
+        output: `assets/trip/${fingerprint("cat.png", "meow")}`,
+      },
+    ]);
+  });
+});
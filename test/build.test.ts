@@ -0,0 +1,887 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { build, parsePost } from "../src/build.js";
+import type { Logger } from "../src/build.js";
+import { LinkCheckError } from "../src/links.js";
+import type { BlogPlugin } from "../src/plugins.js";
+import { DEFAULT_CONFIG } from "../src/config.js";
+import {
+  createMemoryFileSystem,
+  createOverlayFileSystem,
+} from "../src/filesystem.js";
+import type { MemoryFileSystem } from "../src/filesystem.js";
+import { loadTemplates } from "./helpers.js";
+
+const TEMPLATES = loadTemplates();
+
+const PUBLISHED = `---
+title: Hello World
+date: 2024-01-15
+tags: [intro]
+---
+
+First post.
+`;
+
+const DRAFT = `---
+title: Work in Progress
+date: 2024-01-20
+draft: true
+---
+
+Not yet.
+`;
+
+function createLogger(): Logger & { messages: string[] } {
+  const messages: string[] = [];
+  return {
+    messages,
+    log: (message) => messages.push(message),
+    warn: (message) => messages.push(message),
+  };
+}
+
+describe("build (in memory)", () => {
+  let fs: MemoryFileSystem;
+  let logger: ReturnType<typeof createLogger>;
+
+  beforeEach(() => {
+    fs = createMemoryFileSystem({
+      ...TEMPLATES,
+      "posts/hello-world.md": PUBLISHED,
+      "posts/work-in-progress.md": DRAFT,
+    });
+    logger = createLogger();
+  });
+
+  it("writes pages to the adapter and lists them in the result", async () => {
+    const result = await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    expect(result.mode).toBe("preview");
+    expect(result.pages).toEqual([
+      "404.html",
+      "archive/2024/01/index.html",
+      "archive/2024/index.html",
+      "atom.xml",
+      "feed.json",
+      "feed.xml",
+      "hello-world.html",
+      "index.html",
+      "robots.txt",
+      "search-index.json",
+      "search.html",
+      "search.js",
+      "sitemap.xml",
+      expect.stringMatching(/^styles\.[0-9a-f]{8}\.css$/),
+      "tags/index.html",
+      "tags/intro.html",
+      "work-in-progress.html",
+    ]);
+    expect(fs.files.get("docs/hello-world.html")).toContain("First post.");
+    expect(fs.files.has(".cache/build-manifest.json")).toBe(true);
+  });
+
+  it("leaves drafts out in production mode", async () => {
+    const result = await build({
+      config: DEFAULT_CONFIG,
+      mode: "production",
+      fs,
+      logger,
+    });
+
+    expect(result.pages).toContain("hello-world.html");
+    expect(result.pages).not.toContain("work-in-progress.html");
+    expect(fs.files.has("docs/work-in-progress.html")).toBe(false);
+  });
+
+  it("reports unchanged posts on the next build", async () => {
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+    const result = await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    expect(result.unchanged).toEqual([
+      "hello-world.html",
+      "work-in-progress.html",
+    ]);
+    expect(result.pages).not.toContain("hello-world.html");
+  });
+
+  it("reports malformed frontmatter with the file and line", async () => {
+    fs.files.set(
+      "posts/broken.md",
+      "---\ntitle: Broken\ntags: [oops\ndate: 2024-01-01\n---\n"
+    );
+    fs.files.set("pages/about.md", "---\ntitle: About\n  bad: indent\n---\n");
+
+    await expect(build({ config: DEFAULT_CONFIG, fs, logger })).rejects.toThrow(
+      "posts/broken.md:4: error: frontmatter: invalid YAML: missed comma between flow collection entries"
+    );
+
+    fs.files.delete("posts/broken.md");
+    await expect(build({ config: DEFAULT_CONFIG, fs, logger })).rejects.toThrow(
+      "pages/about.md:3: error: frontmatter: invalid YAML: bad indentation of a mapping entry"
+    );
+  });
+
+  it("honours directory overrides", async () => {
+    fs.files.set("content/other.md", PUBLISHED);
+    const result = await build({
+      config: DEFAULT_CONFIG,
+      postsDir: "content",
+      outputDir: "site",
+      fs,
+      logger,
+    });
+
+    expect(result.pages).toContain("other.html");
+    expect(fs.files.has("site/other.html")).toBe(true);
+    expect(fs.files.has("site/hello-world.html")).toBe(false);
+  });
+
+  it("returns frontmatter warnings and sends them to the logger", async () => {
+    fs.files.set(
+      "posts/hello-world.md",
+      PUBLISHED.replace("tags: [intro]", "tags: [intro]\nmood: happy")
+    );
+    const result = await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0].field).toBe("mood");
+    expect(logger.messages.some((message) => message.includes("mood"))).toBe(
+      true
+    );
+  });
+
+  it("removes pages of deleted posts but keeps hand-placed files", async () => {
+    fs.files.set("docs/CNAME", "blog.example.com");
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+    await fs.remove("posts/hello-world.md");
+    const result = await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    expect(result.removed).toEqual([
+      "archive/2024/01/index.html",
+      "archive/2024/index.html",
+      "hello-world.html",
+      "tags/intro.html",
+    ]);
+    expect(fs.files.has("docs/hello-world.html")).toBe(false);
+    expect(fs.files.has("docs/tags/intro.html")).toBe(false);
+    expect(fs.files.get("docs/CNAME")).toBe("blog.example.com");
+  });
+
+  it("only reports stale files in a dry run", async () => {
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+    fs.files.set("posts/hello-again.md", fs.files.get("posts/hello-world.md")!);
+    await fs.remove("posts/hello-world.md");
+
+    const dryRun = await build({
+      config: DEFAULT_CONFIG,
+      dryRun: true,
+      fs,
+      logger,
+    });
+    expect(dryRun.removed).toEqual(["hello-world.html"]);
+    expect(fs.files.has("docs/hello-world.html")).toBe(true);
+    expect(logger.messages).toContain("Would remove hello-world.html");
+
+    // The stale page stays tracked, so a real build still cleans it up
+    const result = await build({ config: DEFAULT_CONFIG, fs, logger });
+    expect(result.removed).toEqual(["hello-world.html"]);
+    expect(fs.files.has("docs/hello-world.html")).toBe(false);
+  });
+
+  it("shows excerpts and reading time on the index and posts", async () => {
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    const index = fs.files.get("docs/index.html");
+    expect(index).toContain('<div class="excerpt"><p>First post.</p>');
+    expect(index).toContain("1 min read");
+    expect(fs.files.get("docs/hello-world.html")).toContain("1 min read");
+  });
+
+  it("renders a nested table of contents on posts", async () => {
+    fs.files.set(
+      "posts/hello-world.md",
+      PUBLISHED + "\n## Part & One\n\n### Detail\n"
+    );
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    const html = fs.files.get("docs/hello-world.html");
+    expect(html).toContain('<nav class="toc">');
+    expect(html).toContain('<a href="#part-one">Part &amp; One</a>');
+    expect(html).toMatch(/<ol>\s*<li>\s*<a href="#detail">Detail<\/a>/);
+  });
+
+  it("writes a search index without drafts", async () => {
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    const index = JSON.parse(fs.files.get("docs/search-index.json")!);
+    expect(index.posts.map((post: { url: string }) => post.url)).toEqual([
+      "hello-world.html",
+    ]);
+    expect(fs.files.get("docs/search.html")).toContain(
+      '<script type="module" src="search.js"></script>'
+    );
+  });
+
+  it("links posts to their neighbours and related posts", async () => {
+    fs.files.set(
+      "posts/older.md",
+      PUBLISHED.replace("Hello World", "Older").replace(
+        "2024-01-15",
+        "2024-01-01"
+      )
+    );
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    const html = fs.files.get("docs/hello-world.html");
+    expect(html).toContain('<a href="older.html" rel="prev">&larr; Older</a>');
+    expect(html).not.toContain('rel="next"');
+    expect(html).toMatch(/<section class="related">[\s\S]*older\.html/);
+    // Drafts are never linked
+    expect(html).not.toContain("work-in-progress.html");
+  });
+
+  it("re-renders a post when a new neighbour appears", async () => {
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+    fs.files.set(
+      "posts/newer.md",
+      PUBLISHED.replace("Hello World", "Newer").replace(
+        "2024-01-15",
+        "2024-02-01"
+      )
+    );
+    const result = await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    expect(result.pages).toContain("hello-world.html");
+    expect(fs.files.get("docs/hello-world.html")).toContain(
+      '<a href="newer.html" rel="next">Newer &rarr;</a>'
+    );
+  });
+
+  it("builds series pages and a series box on each part", async () => {
+    const part = (title: string, date: string, order: number) =>
+      PUBLISHED.replace("Hello World", title)
+        .replace("2024-01-15", date)
+        .replace(
+          "tags: [intro]",
+          `series: Getting Started\nseriesOrder: ${order}`
+        );
+    fs.files.set("posts/part-1.md", part("Setup", "2024-03-01", 1));
+    fs.files.set("posts/part-2.md", part("Deploy", "2024-02-01", 2));
+    fs.files.set(
+      "posts/part-3-draft.md",
+      part("Unfinished", "2024-03-05", 3).replace(
+        "---\n\n",
+        "draft: true\n---\n\n"
+      )
+    );
+    const result = await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    expect(result.pages).toContain("series/getting-started.html");
+    const landing = fs.files.get("docs/series/getting-started.html")!;
+    expect(landing.indexOf("Setup")).toBeLessThan(landing.indexOf("Deploy"));
+    expect(landing).not.toContain("Unfinished");
+
+    const html = fs.files.get("docs/part-2.html")!;
+    expect(html).toContain("Part 2 of 2 in");
+    expect(html).toContain('<strong aria-current="page">Deploy</strong>');
+    expect(html).toContain('<a href="part-1.html">Setup</a>');
+  });
+
+  it("paginates the index with prev/next links", async () => {
+    for (let day = 1; day <= 4; day++) {
+      fs.files.set(
+        `posts/post-${day}.md`,
+        PUBLISHED.replace("2024-01-15", `2024-02-0${day}`)
+      );
+    }
+    const result = await build({
+      config: { ...DEFAULT_CONFIG, pagination: { perPage: 2 } },
+      fs,
+      logger,
+    });
+
+    expect(result.pages).toContain("page/2.html");
+    expect(result.pages).toContain("page/3.html");
+    expect(result.pages).not.toContain("page/4.html");
+    const page2 = fs.files.get("docs/page/2.html");
+    expect(page2).toContain('href="../index.html" rel="prev"');
+    expect(page2).toContain('href="../page/3.html" rel="next"');
+    expect(page2).toContain("Page 2 of 3");
+    expect(fs.files.get("docs/index.html")).not.toContain('rel="prev"');
+  });
+
+  it("adds SEO metadata to post pages", async () => {
+    fs.files.set(
+      "posts/hello-world.md",
+      PUBLISHED.replace(
+        "tags: [intro]",
+        "tags: [intro]\ncanonical: https://other.example/hello"
+      )
+    );
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    const html = fs.files.get("docs/hello-world.html");
+    expect(html).toContain('<meta name="description" content="First post." />');
+    expect(html).toContain(
+      '<link rel="canonical" href="https://other.example/hello" />'
+    );
+    expect(html).toContain('"@type":"BlogPosting"');
+    expect(fs.files.get("docs/index.html")).toContain(
+      '<meta name="description" content="Latest posts" />'
+    );
+  });
+
+  it("builds posts with a quoted date", async () => {
+    fs.files.set(
+      "posts/hello-world.md",
+      PUBLISHED.replace("date: 2024-01-15", 'date: "January 15, 2024"')
+    );
+    const result = await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    expect(result.warnings.map((warning) => warning.field)).toEqual(["date"]);
+    // Parsed in local time, so the UTC day depends on the time zone
+    expect(fs.files.get("docs/hello-world.html")).toMatch(
+      /<meta property="article:published_time" content="2024-01-1[45]T/
+    );
+  });
+
+  it("notes that robots.txt under a path is ignored", async () => {
+    const warnings: string[] = [];
+    await build({
+      config: DEFAULT_CONFIG,
+      fs,
+      logger: { ...logger, warn: (message) => warnings.push(message) },
+    });
+    expect(warnings).toEqual([]);
+    expect(logger.messages).toContain(
+      'robots.txt: crawlers only read https://dmose.github.io/robots.txt, so add "Sitemap: https://dmose.github.io/bpblog/sitemap.xml" there'
+    );
+
+    logger.messages.length = 0;
+    const site = { ...DEFAULT_CONFIG, baseUrl: "https://blog.example.com/" };
+    await build({ config: site, fs, logger });
+    expect(fs.files.get("docs/robots.txt")).toContain(
+      "Sitemap: https://blog.example.com/sitemap.xml"
+    );
+    expect(logger.messages.join("\n")).not.toContain("robots.txt");
+  });
+
+  it("lists published pages in the sitemap", async () => {
+    fs.files.set(
+      "posts/hello-world.md",
+      PUBLISHED.replace(
+        "date: 2024-01-15",
+        "date: 2024-01-15\nupdated: 2024-02-20"
+      )
+    );
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    const sitemap = fs.files.get("docs/sitemap.xml")!;
+    const urls = [...sitemap.matchAll(/<loc>(.*)<\/loc>/g)].map((match) =>
+      match[1].replace(DEFAULT_CONFIG.baseUrl, "")
+    );
+    expect(urls).toEqual([
+      "archive/2024/01/index.html",
+      "archive/2024/index.html",
+      "hello-world.html",
+      "index.html",
+      "tags/index.html",
+      "tags/intro.html",
+    ]);
+    expect(sitemap).toContain(
+      "hello-world.html</loc>\n    <lastmod>2024-02-20</lastmod>"
+    );
+    expect(fs.files.get("docs/robots.txt")).toContain(
+      `Sitemap: ${DEFAULT_CONFIG.baseUrl}sitemap.xml`
+    );
+  });
+
+  it("builds year and month archives", async () => {
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    const year = fs.files.get("docs/archive/2024/index.html");
+    expect(year).toContain("Posts from 2024");
+    expect(year).toContain('href="../../archive/2024/01/index.html"');
+    expect(year).toContain('href="../../hello-world.html"');
+    expect(fs.files.get("docs/archive/2024/01/index.html")).toContain(
+      "Posts from January 2024"
+    );
+    expect(fs.files.get("docs/index.html")).toContain(
+      'href="archive/2024/index.html"'
+    );
+  });
+
+  it("runs plugin hooks at each stage", async () => {
+    fs.files.set(
+      "posts/hello-world.md",
+      PUBLISHED.replace("First post.", "First post. [[year]]")
+    );
+    const plugin: BlogPlugin = {
+      name: "test",
+      onLoadPost: (source) => {
+        source.content = source.content.replace("[[year]]", "2024");
+      },
+      markdown: [
+        {
+          renderer: {
+            paragraph: (text) => `<p class="para">${text}</p>\n`,
+          },
+        },
+      ],
+      templateData: { greeting: "Hi" },
+      onRenderPost: (html) => html.replace("</body>", "<!-- test --></body>"),
+      onBuildEnd: (build) =>
+        build.writeFile("extra/count.txt", String(build.posts.length)),
+    };
+    const result = await build({
+      config: DEFAULT_CONFIG,
+      fs,
+      logger,
+      plugins: [plugin],
+    });
+
+    const html = fs.files.get("docs/hello-world.html");
+    expect(html).toContain('<p class="para">First post. 2024</p>');
+    expect(html).toContain("<!-- test --></body>");
+    expect(fs.files.get("docs/extra/count.txt")).toBe("1");
+    expect(result.pages).toContain("extra/count.txt");
+    expect(logger.messages).toContain("Using plugins: test");
+  });
+
+  it("fails when different tags would share a page", async () => {
+    fs.files.set(
+      "posts/sharp.md",
+      PUBLISHED.replace("tags: [intro]", "tags: [C#]")
+    );
+    fs.files.set(
+      "posts/hello-world.md",
+      PUBLISHED.replace("tags: [intro]", "tags: [C++]")
+    );
+
+    await expect(build({ config: DEFAULT_CONFIG, fs, logger })).rejects.toThrow(
+      'posts/sharp.md:4: error: tags: "C#", "C++" share the URL slug c'
+    );
+  });
+
+  it("builds tag pages for tags in any script", async () => {
+    fs.files.set(
+      "posts/hello-world.md",
+      PUBLISHED.replace("tags: [intro]", "tags: [日本語]")
+    );
+
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    expect(fs.files.has("docs/tags/日本語.html")).toBe(true);
+    expect(fs.files.get("docs/hello-world.html")).toContain(
+      'href="tags/日本語.html"'
+    );
+  });
+
+  it("validates the meta that onLoadPost plugins return", async () => {
+    const untitled = PUBLISHED.replace("title: Hello World\n", "");
+    const plugins: BlogPlugin[] = [
+      {
+        name: "returns",
+        onLoadPost: (source) => ({
+          ...source,
+          meta: { ...source.meta, title: source.slug },
+        }),
+      },
+      {
+        name: "mutates",
+        onLoadPost: (source) => {
+          source.meta.title = source.slug;
+        },
+      },
+    ];
+
+    for (const plugin of plugins) {
+      fs.files.set("posts/hello-world.md", untitled);
+      await build({ config: DEFAULT_CONFIG, fs, logger, plugins: [plugin] });
+      expect(fs.files.get("docs/hello-world.html")).toContain(
+        "<h1>hello-world</h1>"
+      );
+    }
+  });
+
+  it("keeps in-place meta changes out of later parses", async () => {
+    const plugin: BlogPlugin = {
+      name: "mutates",
+      onLoadPost: (source) => {
+        source.meta.title = "Changed";
+      },
+    };
+    await parsePost("hello-world.md", PUBLISHED, [plugin]);
+    const post = await parsePost("hello-world.md", PUBLISHED);
+
+    expect(post!.meta.title).toBe("Hello World");
+  });
+
+  it("passes strict link checks with a scheduled post in preview", async () => {
+    fs.files.set(
+      "posts/future.md",
+      PUBLISHED.replace("Hello World", "Future").replace(
+        "2024-01-15",
+        "2099-01-01"
+      )
+    );
+
+    const result = await build({
+      config: DEFAULT_CONFIG,
+      strict: true,
+      fs,
+      logger,
+    });
+
+    expect(result.pages).toContain("future.html");
+    expect(result.brokenLinks).toEqual([]);
+  });
+
+  it("warns about broken links, or fails in strict mode", async () => {
+    fs.files.set(
+      "posts/hello-world.md",
+      PUBLISHED.replace(
+        "First post.",
+        "First post.\n\nSee [the draft](work-in-progress.html) and [this](gone.html)."
+      )
+    );
+    const result = await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    expect(result.brokenLinks).toEqual([
+      {
+        page: "hello-world.html",
+        url: "work-in-progress.html",
+        message: "links to a draft",
+      },
+      { page: "hello-world.html", url: "gone.html", message: "broken link" },
+    ]);
+    expect(logger.messages).toContain(
+      [
+        "Found 2 broken link(s) in 1 page(s):",
+        "posts/hello-world.md (hello-world.html)",
+        "  - work-in-progress.html: links to a draft",
+        "  - gone.html: broken link",
+      ].join("\n")
+    );
+
+    await expect(
+      build({ config: DEFAULT_CONFIG, strict: true, fs, logger })
+    ).rejects.toThrow(LinkCheckError);
+  });
+
+  it("copies the files a folder post references with hashed names", async () => {
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff]);
+    fs.files.set(
+      "posts/trip/index.md",
+      PUBLISHED.replace("Hello World", "Trip")
+        .replace("2024-01-15", "2024-03-01")
+        .replace("tags: [intro]", "tags: [intro]\nimage: photos/beach.png")
+        .replace(
+          "First post.",
+          "![Beach](photos/beach.png) [Notes](./notes.pdf#page=2)"
+        )
+    );
+    fs.files.set("posts/trip/photos/beach.png", image);
+    fs.files.set("posts/trip/notes.pdf", "%PDF");
+    fs.files.set("posts/trip/unused.txt", "not referenced");
+    const result = await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    const beach = result.pages.find((page) =>
+      /^assets\/trip\/photos\/beach\.[0-9a-f]{8}\.png$/.test(page)
+    )!;
+    const notes = result.pages.find((page) =>
+      /^assets\/trip\/notes\.[0-9a-f]{8}\.pdf$/.test(page)
+    )!;
+    expect(fs.files.get(`docs/${beach}`)).toEqual(image);
+    expect(result.pages.some((page) => page.includes("unused"))).toBe(false);
+
+    const html = fs.files.get("docs/trip.html");
+    expect(html).toContain(`<img src="${beach}" alt="Beach" loading="lazy"`);
+    expect(html).toContain(`<a href="${notes}#page=2">Notes</a>`);
+    expect(html).toContain(
+      `<meta property="og:image" content="${DEFAULT_CONFIG.baseUrl}${beach}" />`
+    );
+    // Listing pages in subdirectories point back up to the asset
+    expect(fs.files.get("docs/tags/intro.html")).toContain(
+      `<img src="../${beach}" alt="Beach"`
+    );
+    expect(fs.files.get("docs/feed.xml")).toContain(
+      `${DEFAULT_CONFIG.baseUrl}${beach}`
+    );
+    expect(result.brokenLinks).toEqual([]);
+  });
+
+  it("sizes folder post images and captions titled ones", async () => {
+    // A 640x480 PNG, as far as its header goes
+    const png = Buffer.alloc(24);
+    Buffer.from("89504e470d0a1a0a0000000d49484452", "hex").copy(png);
+    png.writeUInt32BE(640, 16);
+    png.writeUInt32BE(480, 20);
+    fs.files.set(
+      "posts/trip/index.md",
+      PUBLISHED.replace(
+        "First post.",
+        'First post.\n\n![Beach](beach.png "At the beach")'
+      )
+    );
+    fs.files.set("posts/trip/beach.png", png);
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    expect(fs.files.get("docs/trip.html")).toMatch(
+      /<figure><img src="assets\/trip\/beach\.[0-9a-f]{8}\.png" alt="Beach" loading="lazy" decoding="async" width="640" height="480"><figcaption>At the beach<\/figcaption><\/figure>/
+    );
+  });
+
+  it("sizes flat post images from the output directory", async () => {
+    // A 320x200 PNG, as far as its header goes
+    const png = Buffer.alloc(24);
+    Buffer.from("89504e470d0a1a0a0000000d49484452", "hex").copy(png);
+    png.writeUInt32BE(320, 16);
+    png.writeUInt32BE(200, 20);
+    fs.files.set(
+      "posts/hello-world.md",
+      PUBLISHED.replace(
+        "First post.",
+        "![Cat](images/cat.png) ![Dog](images/dog.png)"
+      )
+    );
+    fs.files.set("docs/images/cat.png", png);
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    const html = fs.files.get("docs/hello-world.html");
+    expect(html).toContain(
+      '<img src="images/cat.png" alt="Cat" loading="lazy" decoding="async" width="320" height="200">'
+    );
+    expect(html).toContain(
+      '<img src="images/dog.png" alt="Dog" loading="lazy" decoding="async">'
+    );
+
+    // Replacing the image by hand re-renders the post
+    png.writeUInt32BE(640, 16);
+    fs.files.set("docs/images/cat.png", png);
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+    expect(fs.files.get("docs/hello-world.html")).toContain(
+      'width="640" height="200"'
+    );
+  });
+
+  it("rejects posts named after the site's own pages", async () => {
+    fs.files.set("posts/search.md", PUBLISHED);
+    fs.files.set("posts/404.md", PUBLISHED);
+
+    const error = await build({ config: DEFAULT_CONFIG, fs, logger }).catch(
+      (error: Error) => error
+    );
+    expect((error as Error).message).toContain(
+      "posts/search.md:1: error: slug: search.html is reserved for the site's own pages"
+    );
+    expect((error as Error).message).toContain(
+      "posts/404.md:1: error: slug: 404.html is reserved for the site's own pages"
+    );
+  });
+
+  it("reports a folder post image that isn't a string", async () => {
+    fs.files.set(
+      "posts/trip/index.md",
+      PUBLISHED.replace("tags: [intro]", "tags: [intro]\nimage: 5")
+    );
+
+    await expect(build({ config: DEFAULT_CONFIG, fs, logger })).rejects.toThrow(
+      "posts/trip/index.md:5: error: image: must be a string, got number"
+    );
+  });
+
+  it("rejects a flat and a folder post with the same slug", async () => {
+    fs.files.set("posts/trip.md", PUBLISHED);
+    fs.files.set("posts/trip/index.md", PUBLISHED);
+
+    const error = await build({ config: DEFAULT_CONFIG, fs, logger }).catch(
+      (error: Error) => error
+    );
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain(
+      "posts/trip.md:1: error: slug: trip.html is already used by another post"
+    );
+    expect((error as Error).message).toContain(
+      "posts/trip/index.md:1: error: slug: trip.html is already used by another post"
+    );
+  });
+
+  it("re-renders a folder post when one of its assets changes", async () => {
+    fs.files.set(
+      "posts/trip/index.md",
+      PUBLISHED.replace("First post.", "![Beach](beach.png)")
+    );
+    fs.files.set("posts/trip/beach.png", "old");
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+    fs.files.set("posts/trip/beach.png", "new");
+    const result = await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    expect(result.pages).toContain("trip.html");
+    expect(result.removed).toHaveLength(1);
+    expect(result.removed[0]).toMatch(/^assets\/trip\/beach\./);
+  });
+
+  it("fingerprints the stylesheet", async () => {
+    const result = await build({ config: DEFAULT_CONFIG, fs, logger });
+    const stylesheet = result.pages.find((page) => page.startsWith("styles."));
+    expect(result.stylesheet).toBe(stylesheet);
+
+    expect(fs.files.get(`docs/${stylesheet}`)).toBe(
+      TEMPLATES["templates/styles.css"]
+    );
+    expect(fs.files.get("docs/tags/intro.html")).toContain(
+      `<link rel="stylesheet" href="../${stylesheet}" />`
+    );
+  });
+
+  it("builds standalone pages outside the post stream", async () => {
+    fs.files.set(
+      "pages/about.md",
+      "---\ntitle: About Me\nnav: 2\nnavTitle: About\nupdated: 2024-03-01\n---\n\nHi there.\n"
+    );
+    fs.files.set(
+      "pages/projects.md",
+      "---\ntitle: Projects\nnav: 1\nlayout: wide\n---\n\nThings.\n"
+    );
+    fs.files.set("pages/colophon.md", "---\ntitle: Colophon\n---\n\nMade.\n");
+    fs.files.set(
+      "templates/wide.html",
+      '{{< base}}\n<main class="wide">{{{content}}}</main>\n'
+    );
+    const result = await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    expect(result.pages).toEqual(
+      expect.arrayContaining(["about.html", "colophon.html", "projects.html"])
+    );
+    const about = fs.files.get("docs/about.html")!;
+    expect(about).toContain("<h1>About Me</h1>");
+    expect(about).toContain("<p>Hi there.</p>");
+    expect(fs.files.get("docs/projects.html")).toContain(
+      '<main class="wide"><p>Things.</p>\n</main>'
+    );
+
+    // Nav links, in order, on every page
+    const nav = /<nav>([\s\S]*?)<\/nav>/;
+    for (const page of ["index.html", "tags/intro.html", "hello-world.html"]) {
+      const links = fs.files
+        .get(`docs/${page}`)!
+        .match(nav)![1]
+        .match(/>[^<]+<\/a>/g);
+      expect(links).toEqual([
+        ">Projects</a>",
+        ">About</a>",
+        ">Tags</a>",
+        ">Search</a>",
+      ]);
+    }
+    expect(fs.files.get("docs/tags/intro.html")).toContain(
+      '<a href="../projects.html">Projects</a>'
+    );
+
+    // Pages stay out of listings and feeds, but not the sitemap
+    for (const file of ["index.html", "feed.xml", "search-index.json"]) {
+      expect(fs.files.get(`docs/${file}`)).not.toContain("About Me");
+    }
+    const sitemap = fs.files.get("docs/sitemap.xml")!;
+    expect(sitemap).toContain(
+      "about.html</loc>\n    <lastmod>2024-03-01</lastmod>"
+    );
+    expect(sitemap).toContain("colophon.html</loc>\n  </url>");
+    expect(sitemap).not.toContain("404.html");
+  });
+
+  it("writes a default 404 page with links from the site root", async () => {
+    await build({ config: DEFAULT_CONFIG, fs, logger });
+    const html = fs.files.get("docs/404.html")!;
+
+    expect(html).toContain("<h1>Page not found</h1>");
+    expect(html).toContain(
+      '<meta name="robots" content="noindex, nofollow" />'
+    );
+    expect(html).toContain('<a href="/bpblog/index.html">latest posts</a>');
+    expect(html).toMatch(/href="\/bpblog\/styles\.[0-9a-f]{8}\.css"/);
+  });
+
+  it("uses pages/404.md for the 404 page", async () => {
+    fs.files.set(
+      "pages/404.md",
+      "---\ntitle: Lost?\n---\n\nGo [home](index.html).\n"
+    );
+    const result = await build({ config: DEFAULT_CONFIG, fs, logger });
+
+    expect(fs.files.get("docs/404.html")).toContain(
+      '<a href="/bpblog/index.html">home</a>'
+    );
+    expect(result.brokenLinks).toEqual([]);
+  });
+
+  it("rejects pages that clash with posts or have a missing layout", async () => {
+    fs.files.set("pages/hello-world.md", "---\ntitle: Clash\n---\n");
+    fs.files.set("pages/odd.md", "---\ntitle: Odd\nlayout: nope\n---\n");
+
+    await expect(build({ config: DEFAULT_CONFIG, fs, logger })).rejects.toThrow(
+      [
+        "Frontmatter validation failed with 2 error(s):",
+        "pages/hello-world.md:1: error: slug: hello-world.html is already used by a post or another page",
+        "pages/odd.md:3: error: layout: no template named nope.html",
+      ].join("\n")
+    );
+  });
+
+  it("loads the config through the adapter", async () => {
+    fs.files.set("blog.config.json", JSON.stringify({ outputDir: "public" }));
+    await build({ fs, logger });
+
+    expect(fs.files.has("public/index.html")).toBe(true);
+  });
+});
+
+describe("createMemoryFileSystem", () => {
+  it("lists files and implicit directories", async () => {
+    const fs = createMemoryFileSystem({ "a/b.txt": "b", "a/c/d.txt": "d" });
+
+    expect(await fs.readdir("a")).toEqual(["b.txt", "c"]);
+    expect(await fs.exists("a/c")).toBe(true);
+    expect(await fs.readFile("./a/b.txt")).toBe("b");
+  });
+
+  it("keeps binary files intact", async () => {
+    const fs = createMemoryFileSystem({ "a.png": Buffer.from([0xff, 0xd8]) });
+    await fs.copyFile("a.png", "b/a.png");
+
+    expect(await fs.readBuffer("b/a.png")).toEqual(Buffer.from([0xff, 0xd8]));
+  });
+
+  it("throws ENOENT for missing files", async () => {
+    const fs = createMemoryFileSystem();
+
+    await expect(fs.readFile("missing.txt")).rejects.toMatchObject({
+      code: "ENOENT",
+    });
+  });
+});
+
+describe("createOverlayFileSystem", () => {
+  it("reads through to the base but keeps changes to itself", async () => {
+    const base = createMemoryFileSystem({ "a.txt": "a", "dir/b.txt": "b" });
+    const overlay = createOverlayFileSystem(base);
+
+    await overlay.writeFile("dir/c.txt", "c");
+    await overlay.writeFile("a.txt", "changed");
+    await overlay.remove("dir/b.txt");
+    await overlay.copyFile("a.txt", "copy.txt");
+
+    expect(await overlay.readFile("a.txt")).toBe("changed");
+    expect(await overlay.readFile("copy.txt")).toBe("changed");
+    expect(await overlay.readdir("dir")).toEqual(["c.txt"]);
+    expect(await overlay.exists("dir/b.txt")).toBe(false);
+    await expect(overlay.readFile("dir/b.txt")).rejects.toMatchObject({
+      code: "ENOENT",
+    });
+    expect([...base.files]).toEqual([
+      ["a.txt", "a"],
+      ["dir/b.txt", "b"],
+    ]);
+  });
+});
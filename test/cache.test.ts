@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  emptyCache,
+  hashBuildCode,
+  hashContent,
+  loadCache,
+  saveCache,
+} from "../src/cache.js";
+import { makePost } from "./helpers.js";
+
+describe("hashContent", () => {
+  it("is stable for the same input", () => {
+    expect(hashContent("a", "b")).toBe(hashContent("a", "b"));
+  });
+
+  it("distinguishes how parts are split", () => {
+    expect(hashContent("ab", "c")).not.toBe(hashContent("a", "bc"));
+  });
+});
+
+describe("hashBuildCode", () => {
+  it("returns the same hash for unchanged code", async () => {
+    expect(await hashBuildCode()).toBe(await hashBuildCode());
+  });
+});
+
+describe("loadCache / saveCache", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "blog-cache-"));
+    file = path.join(dir, "nested", "build-manifest.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips posts and restores their dates", async () => {
+    const cache = emptyCache("code-1");
+    cache.posts["hello.md"] = {
+      sourceHash: "abc",
+      renderHash: "def",
+      post: makePost(
+        "hello",
+        { title: "Hello", date: new Date("2024-01-15") },
+        { content: "Hi", html: "<p>Hi</p>" }
+      ),
+      diagnostics: [],
+    };
+
+    await saveCache(file, cache);
+    const loaded = await loadCache(file, "code-1");
+
+    expect(loaded.posts["hello.md"].renderHash).toBe("def");
+    expect(loaded.posts["hello.md"].post.meta.date).toBeInstanceOf(Date);
+    expect(loaded.posts["hello.md"].post.meta.date.toISOString()).toBe(
+      "2024-01-15T00:00:00.000Z"
+    );
+  });
+
+  it("discards the cache when the build code changed", async () => {
+    const cache = emptyCache("code-1");
+    cache.posts["hello.md"] = {
+      sourceHash: "abc",
+      post: makePost("hello", { title: "Hello", date: new Date("2024-01-15") }),
+      diagnostics: [],
+    };
+    await saveCache(file, cache);
+
+    const loaded = await loadCache(file, "code-2");
+
+    expect(loaded).toEqual(emptyCache("code-2"));
+  });
+
+  it("starts fresh when the manifest is missing or corrupt", async () => {
+    expect(await loadCache(file, "code-1")).toEqual(emptyCache("code-1"));
+
+    writeFileSync(path.join(dir, "corrupt.json"), "{not json");
+    expect(await loadCache(path.join(dir, "corrupt.json"), "code-1")).toEqual(
+      emptyCache("code-1")
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import {
+  loadOutputManifest,
+  OUTPUT_MANIFEST,
+  saveOutputManifest,
+  staleFiles,
+} from "../src/clean.js";
+import { createMemoryFileSystem } from "../src/filesystem.js";
+
+describe("staleFiles", () => {
+  it("returns previously generated files that are no longer produced", () => {
+    expect(
+      staleFiles(
+        ["old-post.html", "index.html", "tags/gone.html"],
+        ["index.html", "new-post.html"]
+      )
+    ).toEqual(["old-post.html", "tags/gone.html"]);
+  });
+
+  it("returns nothing without a previous manifest", () => {
+    expect(staleFiles([], ["index.html"])).toEqual([]);
+  });
+});
+
+describe("loadOutputManifest / saveOutputManifest", () => {
+  it("round-trips the generated file list", async () => {
+    const fs = createMemoryFileSystem();
+    await saveOutputManifest("docs", ["index.html", "a.html", "a.html"], fs);
+
+    expect(await loadOutputManifest("docs", fs)).toEqual([
+      "a.html",
+      "index.html",
+    ]);
+  });
+
+  it("treats a missing or corrupt manifest as empty", async () => {
+    const fs = createMemoryFileSystem({ [`docs/${OUTPUT_MANIFEST}`]: "{" });
+
+    expect(await loadOutputManifest("docs", fs)).toEqual([]);
+    expect(await loadOutputManifest("elsewhere", fs)).toEqual([]);
+  });
+
+  it("ignores entries outside the output directory", async () => {
+    const fs = createMemoryFileSystem({
+      [`docs/${OUTPUT_MANIFEST}`]: JSON.stringify({
+        version: 1,
+        files: ["a.html", "../package.json", "/etc/hosts", OUTPUT_MANIFEST],
+      }),
+    });
+
+    expect(await loadOutputManifest("docs", fs)).toEqual(["a.html"]);
+  });
+});
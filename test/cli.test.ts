@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { EXIT_FAILURE, EXIT_OK, EXIT_USAGE, runCli } from "../src/cli.js";
+import { createMemoryFileSystem } from "../src/filesystem.js";
+import type { MemoryFileSystem } from "../src/filesystem.js";
+import { loadTemplates } from "./helpers.js";
+
+const TEMPLATES = loadTemplates();
+
+const PUBLISHED = `---
+title: Hello World
+date: 2024-01-15
+tags: [intro]
+---
+
+First post.
+`;
+
+const DRAFT = `---
+title: Work in Progress
+date: 2024-01-20
+tags: [Intro]
+draft: true
+---
+
+Not yet.
+`;
+
+describe("blog CLI", () => {
+  let fs: MemoryFileSystem;
+  let out: string[];
+  let err: string[];
+
+  const run = (...argv: string[]) =>
+    runCli(argv, {
+      fs,
+      logger: {
+        log: (message) => out.push(message),
+        warn: (message) => err.push(message),
+      },
+      now: new Date(2024, 4, 3),
+    });
+
+  beforeEach(() => {
+    fs = createMemoryFileSystem({
+      ...TEMPLATES,
+      "posts/hello-world.md": PUBLISHED,
+      "posts/work-in-progress.md": DRAFT,
+    });
+    out = [];
+    err = [];
+  });
+
+  it("prints help", async () => {
+    expect(await run("--help")).toBe(EXIT_OK);
+    expect(out[0]).toContain("Usage: blog <command> [options]");
+    expect(out[0]).toMatch(/^ {2}list +List posts/m);
+
+    expect(await run("build", "-h")).toBe(EXIT_OK);
+    expect(out[1]).toContain("Usage: blog build [options]");
+    expect(out[1]).toContain("--strict");
+  });
+
+  it("rejects unknown commands, options and arguments", async () => {
+    expect(await run()).toBe(EXIT_USAGE);
+    expect(await run("publish")).toBe(EXIT_USAGE);
+    expect(err[1]).toContain('unknown command "publish"');
+    expect(await run("list", "--nope")).toBe(EXIT_USAGE);
+    expect(await run("build", "extra")).toBe(EXIT_USAGE);
+    expect(err[3]).toContain('unexpected argument "extra"');
+    expect(await run("build", "--mode", "draft")).toBe(EXIT_USAGE);
+    expect(await run("dev", "--port", "http")).toBe(EXIT_USAGE);
+  });
+
+  describe("new", () => {
+    it("creates a draft post named after today's date and the title", async () => {
+      expect(
+        await run("new", "Hello, Again!", "--tags", "intro, big news")
+      ).toBe(EXIT_OK);
+      expect(fs.files.get("posts/2024-05-03-hello-again.md")).toBe(
+        [
+          "---",
+          'title: "Hello, Again!"',
+          "date: 2024-05-03",
+          'tags: [intro, "big news"]',
+          "draft: true",
+          "---",
+          "",
+          "",
+        ].join("\n")
+      );
+      expect(out[0]).toContain("Created posts/2024-05-03-hello-again.md");
+    });
+
+    it("creates folder posts and takes a date", async () => {
+      expect(await run("new", "Trip", "--folder", "--date", "2024-02-29")).toBe(
+        EXIT_OK
+      );
+      expect(fs.files.has("posts/2024-02-29-trip/index.md")).toBe(true);
+    });
+
+    it("keeps letters from any script in the file name", async () => {
+      expect(await run("new", "東京の旅", "--tags", "日本語")).toBe(EXIT_OK);
+      expect(fs.files.has("posts/2024-05-03-東京の旅.md")).toBe(true);
+    });
+
+    it("won't overwrite an existing post", async () => {
+      fs.files.set("posts/2024-05-03-trip.md", PUBLISHED);
+      expect(await run("new", "Trip", "--folder")).toBe(EXIT_FAILURE);
+      expect(err[0]).toBe("posts/2024-05-03-trip.md already exists");
+    });
+
+    it("needs a title and a valid date", async () => {
+      expect(await run("new")).toBe(EXIT_USAGE);
+      expect(await run("new", "!!!")).toBe(EXIT_USAGE);
+      expect(await run("new", "Trip", "--tags", "C++, ++")).toBe(EXIT_USAGE);
+      expect(err[2]).toContain('--tags: "++" needs letters or digits');
+      expect(await run("new", "Trip", "--date", "2024-02-30")).toBe(EXIT_USAGE);
+      expect(err[3]).toContain('--date: "2024-02-30" is not a YYYY-MM-DD date');
+    });
+  });
+
+  describe("build", () => {
+    it("builds with the given mode and output directory", async () => {
+      expect(
+        await run("build", "--mode", "production", "--out", "public")
+      ).toBe(EXIT_OK);
+      expect(fs.files.has("public/hello-world.html")).toBe(true);
+      expect(fs.files.has("public/work-in-progress.html")).toBe(false);
+      expect(out).toContain("Building site (production mode)...");
+    });
+
+    it("fails on invalid frontmatter", async () => {
+      fs.files.set("posts/bad.md", "---\ndate: 2024-01-01\n---\n");
+      expect(await run("build")).toBe(EXIT_FAILURE);
+      expect(err[0]).toContain("posts/bad.md:1: error: title: is required");
+    });
+  });
+
+  describe("check", () => {
+    it("validates without writing anything", async () => {
+      const before = new Map(fs.files);
+      expect(await run("check")).toBe(EXIT_OK);
+      expect(fs.files).toEqual(before);
+      expect(out[0]).toMatch(/^Checked \d+ pages: no errors, 0 warning\(s\)$/);
+    });
+
+    it("fails on broken links", async () => {
+      fs.files.set(
+        "posts/hello-world.md",
+        PUBLISHED.replace("First post.", "See [this](gone.html).")
+      );
+      expect(await run("check")).toBe(EXIT_FAILURE);
+      expect(err[0]).toContain("  - gone.html: broken link");
+      expect(fs.files.has("docs/index.html")).toBe(false);
+    });
+  });
+
+  describe("list", () => {
+    it("shows posts in a table, newest first", async () => {
+      expect(await run("list")).toBe(EXIT_OK);
+      expect(out[0]).toBe(
+        [
+          "DATE        STATUS     TITLE             TAGS",
+          "2024-01-20  draft      Work in Progress  Intro",
+          "2024-01-15  published  Hello World       intro",
+        ].join("\n")
+      );
+    });
+
+    it("filters by draft status and tag", async () => {
+      await run("list", "--drafts");
+      expect(out[0]).not.toContain("Hello World");
+      await run("list", "--tag", "INTRO");
+      expect(out[1]).toContain("Work in Progress");
+      expect(out[1]).toContain("Hello World");
+      await run("list", "--tag", "nothing");
+      expect(out[2]).toBe("No posts found");
+    });
+  });
+});
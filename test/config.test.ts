@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  ConfigError,
+  DEFAULT_CONFIG,
+  loadConfig,
+  validateConfig,
+} from "../src/config.js";
+
+describe("validateConfig", () => {
+  it("fills in defaults for missing options", () => {
+    const config = validateConfig({ title: "My Blog", dev: { port: 4000 } });
+
+    expect(config.title).toBe("My Blog");
+    expect(config.locale).toBe(DEFAULT_CONFIG.locale);
+    expect(config.dev).toEqual({ port: 4000, debounceMs: 300 });
+  });
+
+  it("adds a trailing slash to the base URL", () => {
+    expect(
+      validateConfig({ baseUrl: "https://example.com/blog" }).baseUrl
+    ).toBe("https://example.com/blog/");
+  });
+
+  it("reports every problem at once", () => {
+    try {
+      validateConfig({
+        title: "",
+        baseUrl: "example.com",
+        locale: "not a locale!",
+        dev: { port: 70000 },
+        colour: "blue",
+      });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      expect((error as ConfigError).problems).toEqual([
+        "colour: unknown option",
+        "title: must be a non-empty string",
+        "baseUrl: must be an absolute http(s) URL",
+        'locale: "not a locale!" is not a supported locale',
+        "dev.port: must be an integer between 1 and 65535",
+      ]);
+    }
+  });
+
+  it("rejects a page size below one", () => {
+    expect(() => validateConfig({ pagination: { perPage: 0 } })).toThrow(
+      "pagination.perPage: must be a positive integer"
+    );
+  });
+
+  it("rejects a negative related posts limit", () => {
+    expect(() => validateConfig({ related: { limit: -1 } })).toThrow(
+      "related.limit: must be a non-negative integer"
+    );
+  });
+
+  it("rejects plugins that aren't module names", () => {
+    expect(() => validateConfig({ plugins: ["./ok.js", 42] })).toThrow(
+      "plugins: must be a list of module paths or package names"
+    );
+  });
+
+  it("rejects an unknown feed content type", () => {
+    expect(() => validateConfig({ feed: { content: "summary" } })).toThrow(
+      'feed.content: must be "full" or "excerpt"'
+    );
+  });
+});
+
+describe("loadConfig", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "blog-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("uses the defaults when there is no config file", async () => {
+    const config = await loadConfig(path.join(dir, "blog.config.json"));
+
+    expect(config.title).toBe(DEFAULT_CONFIG.title);
+    expect(config.postsDir).toBe(path.join(dir, "posts"));
+    expect(config.pagesDir).toBe(path.join(dir, "pages"));
+  });
+
+  it("resolves directories relative to the config file", async () => {
+    const file = path.join(dir, "blog.config.json");
+    writeFileSync(
+      file,
+      JSON.stringify({ postsDir: "content", outputDir: "/tmp/site" })
+    );
+
+    const config = await loadConfig(file);
+
+    expect(config.postsDir).toBe(path.join(dir, "content"));
+    expect(config.outputDir).toBe("/tmp/site");
+  });
+
+  it("resolves plugin paths but not package names", async () => {
+    const file = path.join(dir, "blog.config.json");
+    writeFileSync(
+      file,
+      JSON.stringify({ plugins: ["./plugins/shortcodes.js", "bpblog-plugin"] })
+    );
+
+    const config = await loadConfig(file);
+
+    expect(config.plugins).toEqual([
+      path.join(dir, "plugins/shortcodes.js"),
+      "bpblog-plugin",
+    ]);
+  });
+
+  it("reports invalid JSON as a config error", async () => {
+    const file = path.join(dir, "blog.config.json");
+    writeFileSync(file, "{ title: ");
+
+    await expect(loadConfig(file)).rejects.toThrow(ConfigError);
+  });
+});
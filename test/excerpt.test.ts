@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { parsePost } from "../src/build.js";
+import {
+  countWords,
+  firstParagraph,
+  readingTime,
+  textBeforeMore,
+} from "../src/excerpt.js";
+
+const FRONTMATTER = "---\ntitle: Test\ndate: 2024-01-15\n---\n";
+
+describe("countWords", () => {
+  it("counts visible words, not markup", () => {
+    expect(
+      countWords('<p>Hello <a href="https://example.com/a-b">big world</a></p>')
+    ).toBe(3);
+  });
+
+  it("treats contractions and hyphenated words as one word", () => {
+    expect(countWords("<p>Don't over-think it</p>")).toBe(3);
+  });
+
+  it("ignores comments and entities", () => {
+    expect(countWords("<p>A &amp; B</p><!--more-->")).toBe(2);
+  });
+});
+
+describe("readingTime", () => {
+  it("rounds up to whole minutes", () => {
+    expect(readingTime(201)).toBe(2);
+    expect(readingTime(400)).toBe(2);
+  });
+
+  it("is at least one minute", () => {
+    expect(readingTime(0)).toBe(1);
+  });
+});
+
+describe("textBeforeMore / firstParagraph", () => {
+  it("splits at the more marker", () => {
+    expect(textBeforeMore("Intro\n\n<!--more-->\n\nRest")).toBe("Intro\n\n");
+    expect(textBeforeMore("No marker")).toBeUndefined();
+  });
+
+  it("finds the first paragraph", () => {
+    expect(firstParagraph("<h1>T</h1>\n<p>One</p>\n<p>Two</p>")).toBe(
+      "<p>One</p>"
+    );
+    expect(firstParagraph("<h1>T</h1>")).toBe("");
+  });
+});
+
+describe("parsePost excerpts", () => {
+  it("uses the text above <!--more-->", async () => {
+    const post = await parsePost(
+      "more.md",
+      `${FRONTMATTER}\nFirst.\n\nSecond.\n\n<!--more-->\n\nThird.\n`
+    );
+
+    expect(post?.excerpt).toBe("<p>First.</p>\n<p>Second.</p>\n");
+  });
+
+  it("falls back to the summary field, escaped", async () => {
+    const post = await parsePost(
+      "summary.md",
+      "---\ntitle: Test\ndate: 2024-01-15\nsummary: Tips & <tricks>\n---\n\nBody.\n"
+    );
+
+    expect(post?.excerpt).toBe("<p>Tips &amp; &lt;tricks&gt;</p>");
+  });
+
+  it("otherwise uses the first paragraph", async () => {
+    const post = await parsePost(
+      "plain.md",
+      `${FRONTMATTER}\n# Heading\n\nOpening line.\n\nMore.\n`
+    );
+
+    expect(post?.excerpt).toBe("<p>Opening line.</p>");
+  });
+
+  it("computes word count and reading time", async () => {
+    const body = Array.from({ length: 450 }, () => "word").join(" ");
+    const post = await parsePost("long.md", `${FRONTMATTER}\n${body}\n`);
+
+    expect(post?.wordCount).toBe(450);
+    expect(post?.readingTime).toBe(3);
+  });
+});
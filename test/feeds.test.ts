@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  renderAtom,
+  renderJsonFeed,
+  renderRss,
+  toRfc3339,
+  toRfc822,
+} from "../src/feeds.js";
+import type { FeedOptions } from "../src/feeds.js";
+import { filterPostsForIndex, Post } from "../src/build.js";
+import { makePost } from "./helpers.js";
+
+const options: FeedOptions = {
+  siteUrl: "https://example.com/blog",
+  title: "Test Blog",
+  description: "Posts & notes",
+};
+
+const posts: Post[] = filterPostsForIndex([
+  makePost(
+    "2024-01-15-first",
+    { title: "First <Post>", date: new Date("2024-01-15"), tags: ["a"] },
+    {
+      html: "<p>First paragraph.</p>\n<p>Second paragraph.</p>",
+      excerpt: "<p>First paragraph.</p>",
+      wordCount: 4,
+    }
+  ),
+  makePost(
+    "2024-01-20-draft",
+    { title: "Draft", date: new Date("2024-01-20"), draft: true },
+    { html: "<p>Secret</p>", excerpt: "<p>Secret</p>", wordCount: 1 }
+  ),
+  makePost(
+    "2024-02-01-second",
+    { title: "Second", date: new Date("2024-02-01") },
+    { html: "<p>Newer post</p>", excerpt: "<p>Newer post</p>", wordCount: 2 }
+  ),
+]);
+
+describe("feed dates", () => {
+  it("formats RFC 822 and RFC 3339 dates in UTC", () => {
+    const date = new Date("2024-01-15T00:00:00Z");
+    expect(toRfc822(date)).toBe("Mon, 15 Jan 2024 00:00:00 GMT");
+    expect(toRfc3339(date)).toBe("2024-01-15T00:00:00.000Z");
+  });
+});
+
+describe("renderRss", () => {
+  it("lists non-draft posts newest first with absolute URLs", () => {
+    const rss = renderRss(posts, options);
+
+    expect(rss).toContain('<rss version="2.0"');
+    expect(rss).toContain(
+      "<link>https://example.com/blog/2024-02-01-second.html</link>"
+    );
+    expect(rss).not.toContain("Draft");
+    expect(rss.indexOf("Second")).toBeLessThan(rss.indexOf("First"));
+    expect(rss).toContain("<pubDate>Thu, 01 Feb 2024 00:00:00 GMT</pubDate>");
+  });
+
+  it("escapes titles and HTML content", () => {
+    const rss = renderRss(posts, options);
+
+    expect(rss).toContain("<title>First &lt;Post&gt;</title>");
+    expect(rss).toContain("&lt;p&gt;First paragraph.&lt;/p&gt;");
+    expect(rss).toContain("<description>Posts &amp; notes</description>");
+  });
+
+  it("uses only the first paragraph in excerpt mode", () => {
+    const rss = renderRss(posts, { ...options, content: "excerpt" });
+
+    expect(rss).toContain("First paragraph.");
+    expect(rss).not.toContain("Second paragraph.");
+  });
+});
+
+describe("renderAtom", () => {
+  it("renders entries with RFC 3339 dates", () => {
+    const atom = renderAtom(posts, options);
+
+    expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(atom).toContain("<updated>2024-02-01T00:00:00.000Z</updated>");
+    expect(atom).toContain(
+      '<link href="https://example.com/blog/atom.xml" rel="self" />'
+    );
+    expect(atom).toContain('<content type="html">');
+  });
+});
+
+describe("renderJsonFeed", () => {
+  it("renders a valid JSON Feed 1.1 document", () => {
+    const feed = JSON.parse(renderJsonFeed(posts, options));
+
+    expect(feed.version).toBe("https://jsonfeed.org/version/1.1");
+    expect(feed.feed_url).toBe("https://example.com/blog/feed.json");
+    expect(feed.items).toHaveLength(2);
+    expect(feed.items[0].url).toBe(
+      "https://example.com/blog/2024-02-01-second.html"
+    );
+    expect(feed.items[1].content_html).toContain("Second paragraph.");
+    expect(feed.items[1].tags).toEqual(["a"]);
+  });
+});
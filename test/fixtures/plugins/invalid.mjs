@@ -0,0 +1,2 @@
+// Used by test/plugins.test.ts: a module without a plugin
+export default { hooks: {} };
@@ -0,0 +1,8 @@
+// Used by test/plugins.test.ts: a plugin module whose default export is a
+// factory
+export default function shout() {
+  return {
+    name: "shout",
+    onRenderPost: (html) => html.toUpperCase(),
+  };
+}
@@ -0,0 +1,41 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import type { Post, PostMeta } from "../src/build.js";
+
+// A parsed post for unit tests, titled after its slug and dated 2024-01-15
+// unless `meta` says otherwise. `fields` sets the rendered parts.
+export function makePost(
+  slug: string,
+  meta: Partial<PostMeta> = {},
+  fields: Partial<Omit<Post, "slug" | "meta">> = {}
+): Post {
+  return {
+    slug,
+    meta: { title: slug, date: new Date("2024-01-15"), ...meta },
+    content: "",
+    html: "",
+    excerpt: "",
+    wordCount: 0,
+    readingTime: 1,
+    toc: [],
+    ...fields,
+  };
+}
+
+// Copies the real templates into memory so pages render as they do on disk
+export function loadTemplates(
+  dir = "templates",
+  prefix = "templates"
+): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const source = path.join(dir, entry.name);
+    const target = `${prefix}/${entry.name}`;
+    if (entry.isDirectory()) {
+      Object.assign(files, loadTemplates(source, target));
+    } else {
+      files[target] = readFileSync(source, "utf-8");
+    }
+  }
+  return files;
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { parsePost } from "../src/build.js";
+import {
+  highlightCode,
+  isHighlighted,
+  parseFenceInfo,
+} from "../src/highlight.js";
+
+describe("parseFenceInfo", () => {
+  it("reads the language, highlighted lines and line numbers", () => {
+    const fence = parseFenceInfo("ts {1,3-5} showLineNumbers");
+
+    expect(fence.language).toBe("ts");
+    expect(fence.highlight).toEqual([
+      [1, 1],
+      [3, 5],
+    ]);
+    expect(
+      [1, 2, 3, 4, 5, 6].filter((line) => isHighlighted(fence, line))
+    ).toEqual([1, 3, 4, 5]);
+    expect(fence.lineNumbers).toBe(true);
+  });
+
+  it("defaults to no options", () => {
+    expect(parseFenceInfo("")).toEqual({
+      language: undefined,
+      highlight: [],
+      lineNumbers: false,
+    });
+  });
+
+  it("ignores malformed ranges", () => {
+    expect(parseFenceInfo("py {x, 2}").highlight).toEqual([[2, 2]]);
+  });
+
+  it("handles huge ranges without expanding them", () => {
+    const fence = parseFenceInfo("text {1-100000000}");
+
+    expect(isHighlighted(fence, 99999999)).toBe(true);
+    expect(highlightCode("a\nb", "text {2-100000000}")).toContain(
+      '<span class="line highlighted">b</span>'
+    );
+  });
+});
+
+describe("highlightCode", () => {
+  it("emits token classes for supported languages", () => {
+    for (const [language, code] of [
+      ["typescript", "const x: number = 1;"],
+      ["shell", "echo $HOME"],
+      ["json", '{"a": 1}'],
+      ["html", "<p>hi</p>"],
+      ["css", "a { color: red; }"],
+      ["python", "def f(): pass"],
+    ]) {
+      expect(highlightCode(code, language)).toMatch(/class="hljs-/);
+    }
+  });
+
+  it("wraps each line and marks highlighted ones", () => {
+    const html = highlightCode("a\nb\nc\n", "text {2}");
+
+    expect(html).toContain('<span class="line">a</span>');
+    expect(html).toContain('<span class="line highlighted">b</span>');
+    expect(html).toContain('<span class="line">c</span>');
+  });
+
+  it("keeps tokens that span lines well-formed", () => {
+    const html = highlightCode("/* one\ntwo */", "ts");
+
+    expect(html).toContain(
+      '<span class="line"><span class="hljs-comment">/* one</span></span>'
+    );
+    expect(html).toContain(
+      '<span class="line"><span class="hljs-comment">two */</span></span>'
+    );
+  });
+
+  it("adds the line-numbers class when requested", () => {
+    expect(highlightCode("x", "ts showLineNumbers")).toContain(
+      '<pre class="code-block line-numbers">'
+    );
+  });
+
+  it("escapes code in unknown languages", () => {
+    const html = highlightCode("<script>", "brainfuck");
+
+    expect(html).toContain("&lt;script&gt;");
+    expect(html).toContain('class="hljs language-brainfuck"');
+  });
+});
+
+describe("parsePost code blocks", () => {
+  it("highlights fenced code at parse time", async () => {
+    const post = await parsePost(
+      "code.md",
+      "---\ntitle: Code\ndate: 2024-01-01\n---\n\n```typescript {2}\nconst a = 1;\nconst b = 2;\n```\n"
+    );
+
+    expect(post?.html).toContain('class="hljs language-typescript"');
+    expect(post?.html).toContain('<span class="hljs-keyword">const</span>');
+    expect(post?.html).toContain('class="line highlighted"');
+  });
+});
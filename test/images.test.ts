@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { Marked } from "marked";
+import {
+  addImageSizes,
+  imageExtension,
+  imageSize,
+  imageSources,
+} from "../src/images.js";
+
+function png(width: number, height: number): Buffer {
+  const data = Buffer.alloc(24);
+  Buffer.from("89504e470d0a1a0a0000000d49484452", "hex").copy(data);
+  data.writeUInt32BE(width, 16);
+  data.writeUInt32BE(height, 20);
+  return data;
+}
+
+function gif(width: number, height: number): Buffer {
+  const data = Buffer.alloc(10);
+  data.write("GIF89a", "latin1");
+  data.writeUInt16LE(width, 6);
+  data.writeUInt16LE(height, 8);
+  return data;
+}
+
+// SOI, an APP0 segment to skip, then a baseline SOF0 frame
+function jpeg(width: number, height: number): Buffer {
+  const app0 = Buffer.from("ffe000104a46494600010100000100010000", "hex");
+  const sof0 = Buffer.alloc(19);
+  Buffer.from("ffc000110803", "hex").copy(sof0);
+  sof0.writeUInt16BE(height, 5);
+  sof0.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from("ffd8", "hex"), app0, sof0]);
+}
+
+function webp(chunk: string, payload: Buffer): Buffer {
+  const header = Buffer.alloc(20);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(12 + payload.length, 4);
+  header.write("WEBP", 8, "latin1");
+  header.write(chunk, 12, "latin1");
+  header.writeUInt32LE(payload.length, 16);
+  return Buffer.concat([header, payload]);
+}
+
+describe("imageSize", () => {
+  it("reads PNG, GIF and JPEG headers", () => {
+    expect(imageSize(png(640, 480))).toEqual({ width: 640, height: 480 });
+    expect(imageSize(gif(16, 32))).toEqual({ width: 16, height: 32 });
+    expect(imageSize(jpeg(1200, 800))).toEqual({ width: 1200, height: 800 });
+  });
+
+  it("reads lossy, lossless and extended WebP headers", () => {
+    const lossy = Buffer.alloc(10);
+    Buffer.from("9d012a", "hex").copy(lossy, 3);
+    lossy.writeUInt16LE(300, 6);
+    lossy.writeUInt16LE(200, 8);
+
+    const lossless = Buffer.alloc(10);
+    lossless[0] = 0x2f;
+    lossless.writeUInt32LE((300 - 1) | ((200 - 1) << 14), 1);
+
+    const extended = Buffer.alloc(10);
+    extended.writeUIntLE(300 - 1, 4, 3);
+    extended.writeUIntLE(200 - 1, 7, 3);
+
+    for (const image of [
+      webp("VP8 ", lossy),
+      webp("VP8L", lossless),
+      webp("VP8X", extended),
+    ]) {
+      expect(imageSize(image)).toEqual({ width: 300, height: 200 });
+    }
+  });
+
+  it("reads SVG sizes from attributes or the viewBox", () => {
+    const sized = Buffer.from(
+      '<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="120px" height="60"></svg>'
+    );
+    const viewBox = Buffer.from('<svg viewBox="0 0 24 12" width="100%">');
+
+    expect(imageSize(sized)).toEqual({ width: 120, height: 60 });
+    expect(imageSize(viewBox)).toEqual({ width: 24, height: 12 });
+  });
+
+  it("returns undefined for other files", () => {
+    expect(imageSize(Buffer.from("%PDF-1.7"))).toBeUndefined();
+    expect(imageSize(Buffer.from("89504e47", "hex"))).toBeUndefined();
+  });
+});
+
+describe("addImageSizes", () => {
+  it("sizes images it knows and leaves the rest alone", () => {
+    const html =
+      '<img src="a.png?x=1&amp;y=2" alt="A"><img src="b.png" alt="B"><img src="a.png?x=1&amp;y=2" width="10">';
+    const sizes = new Map([["a.png?x=1&y=2", { width: 4, height: 3 }]]);
+
+    expect(addImageSizes(html, (src) => sizes.get(src))).toBe(
+      '<img src="a.png?x=1&amp;y=2" alt="A" width="4" height="3"><img src="b.png" alt="B"><img src="a.png?x=1&amp;y=2" width="10">'
+    );
+  });
+});
+
+describe("imageSources", () => {
+  it("lists the src of every image", () => {
+    const html = `<p><img src="a.png?x=1&amp;y=2" alt=""><a href="b.html">b</a><img alt="" src='c.svg' /></p>`;
+
+    expect(imageSources(html)).toEqual(["a.png?x=1&y=2", "c.svg"]);
+  });
+});
+
+describe("imageExtension", () => {
+  const marked = new Marked(imageExtension);
+
+  it("loads images lazily", async () => {
+    expect(await marked.parse("Look: ![A cat](<my cat.png>)")).toBe(
+      '<p>Look: <img src="my%20cat.png" alt="A cat" loading="lazy" decoding="async"></p>\n'
+    );
+  });
+
+  it("turns titled images into figures with captions", async () => {
+    expect(await marked.parse('![A cat](cat.png "Tom & Jerry")')).toBe(
+      '<figure><img src="cat.png" alt="A cat" loading="lazy" decoding="async"><figcaption>Tom &amp; Jerry</figcaption></figure>\n'
+    );
+  });
+
+  it("keeps figures inside text in their paragraph", async () => {
+    expect(await marked.parse('Before ![A](a.png "Caption")')).toBe(
+      '<p>Before <figure><img src="a.png" alt="A" loading="lazy" decoding="async"><figcaption>Caption</figcaption></figure></p>\n'
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkLinks,
+  extractIds,
+  extractLinks,
+  formatLinkReport,
+} from "../src/links.js";
+
+const BASE_URL = "https://example.com/blog/";
+
+function check(
+  pages: Record<string, string>,
+  files: string[] = [],
+  unpublished: string[] = []
+) {
+  return checkLinks({
+    pages: new Map(Object.entries(pages)),
+    baseUrl: BASE_URL,
+    exists: async (file) => files.includes(file),
+    unpublished: new Set(unpublished),
+  });
+}
+
+describe("extractLinks", () => {
+  it("finds links, images, stylesheets and scripts", () => {
+    const html = `<link rel="stylesheet" href="styles.css" />
+<a href='a.html?x=1&amp;y=2'>A</a> <img alt="" src=cat.png>
+<script src="search.js"></script> <a name="top">no href</a>`;
+
+    expect(extractLinks(html)).toEqual([
+      { tag: "link", url: "styles.css", rel: "stylesheet" },
+      { tag: "a", url: "a.html?x=1&y=2" },
+      { tag: "img", url: "cat.png" },
+      { tag: "script", url: "search.js" },
+    ]);
+  });
+});
+
+describe("extractIds", () => {
+  it("collects ids and anchor names", () => {
+    expect(extractIds('<h2 id="setup">x</h2><a name="old"></a>')).toEqual(
+      new Set(["setup", "old"])
+    );
+  });
+});
+
+describe("checkLinks", () => {
+  it("accepts links to pages and files that exist", async () => {
+    const problems = await check(
+      {
+        "index.html": `<a href="tags/">Tags</a> <a href="post.html#intro">x</a>
+<img src="images/cat.png"> <a href="https://other.example/missing">x</a>
+<a href="mailto:me@example.com">x</a> <a href="#">top</a>`,
+        "tags/index.html": `<a href="../index.html">Home</a>
+<a href="${BASE_URL}post.html">Canonical</a>`,
+        "post.html": '<h2 id="intro">Intro</h2>',
+      },
+      ["images/cat.png"]
+    );
+
+    expect(problems).toEqual([]);
+  });
+
+  it("reports missing pages, assets and anchors", async () => {
+    const problems = await check({
+      "post.html": `<link rel="stylesheet" href="style.css">
+<a href="old-name.html">x</a> <img src="cat.png"> <a href="#nowhere">x</a>
+<a href="/blog/other.html">x</a> <a href="/elsewhere.html">outside</a>`,
+    });
+
+    expect(problems).toEqual([
+      { page: "post.html", url: "style.css", message: "missing stylesheet" },
+      { page: "post.html", url: "old-name.html", message: "broken link" },
+      { page: "post.html", url: "cat.png", message: "missing image" },
+      {
+        page: "post.html",
+        url: "#nowhere",
+        message: "missing anchor #nowhere",
+      },
+      { page: "post.html", url: "/blog/other.html", message: "broken link" },
+    ]);
+  });
+
+  it("reports published pages linking to drafts", async () => {
+    const problems = await check(
+      {
+        "post.html": '<a href="draft.html">x</a>',
+        "draft.html": '<a href="other-draft.html">x</a>',
+        "other-draft.html": "",
+      },
+      [],
+      ["draft.html", "other-draft.html"]
+    );
+
+    expect(problems).toEqual([
+      {
+        page: "post.html",
+        url: "draft.html",
+        message: "links to a draft",
+      },
+    ]);
+  });
+});
+
+describe("formatLinkReport", () => {
+  it("groups problems by page and names the source post", () => {
+    const report = formatLinkReport(
+      [
+        { page: "a.html", url: "x.html", message: "broken link" },
+        { page: "a.html", url: "y.png", message: "missing image" },
+        { page: "index.html", url: "z.html", message: "broken link" },
+      ],
+      new Map([["a.html", "posts/a.md"]])
+    );
+
+    expect(report).toBe(
+      [
+        "Found 3 broken link(s) in 2 page(s):",
+        "posts/a.md (a.html)",
+        "  - x.html: broken link",
+        "  - y.png: missing image",
+        "index.html",
+        "  - z.html: broken link",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_CONFIG } from "../src/config.js";
+import {
+  defaultNotFoundPage,
+  navLinks,
+  NOT_FOUND_PAGE,
+  notFoundRoot,
+} from "../src/pages.js";
+import type { Page, PageMeta } from "../src/pages.js";
+
+function makePage(slug: string, meta: Partial<PageMeta> = {}): Page {
+  return { slug, meta: { title: slug, ...meta }, html: "" };
+}
+
+describe("navLinks", () => {
+  it("lists pages with a nav position in order", () => {
+    const pages = [
+      makePage("about", { nav: 2, navTitle: "About me" }),
+      makePage("colophon"),
+      makePage("projects", { nav: 1 }),
+      makePage("contact", { nav: 2 }),
+    ];
+
+    expect(navLinks(pages)).toEqual([
+      { title: "projects", url: "projects.html" },
+      { title: "About me", url: "about.html" },
+      { title: "contact", url: "contact.html" },
+    ]);
+  });
+
+  it("returns nothing when no page asks to be listed", () => {
+    expect(navLinks([makePage("about")])).toEqual([]);
+  });
+});
+
+describe("notFoundRoot", () => {
+  it("is the path of the base URL", () => {
+    expect(notFoundRoot(DEFAULT_CONFIG)).toBe("/bpblog/");
+    expect(
+      notFoundRoot({ ...DEFAULT_CONFIG, baseUrl: "https://example.com/" })
+    ).toBe("/");
+  });
+});
+
+describe("defaultNotFoundPage", () => {
+  it("links to the home page from the given root", () => {
+    const page = defaultNotFoundPage("/blog/");
+
+    expect(page.slug).toBe(NOT_FOUND_PAGE);
+    expect(page.meta.title).toBe("Page not found");
+    expect(page.html).toContain('href="/blog/index.html"');
+    expect(page.html).toContain('href="/blog/search.html"');
+  });
+});
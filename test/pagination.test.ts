@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { paginate, pagePath, paginationLinks } from "../src/pagination.js";
+
+describe("paginate", () => {
+  it("splits items into pages of the given size", () => {
+    expect(paginate([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it("returns one empty page when there are no items", () => {
+    expect(paginate([], 10)).toEqual([[]]);
+  });
+});
+
+describe("pagePath", () => {
+  it("puts the first page at the site index", () => {
+    expect(pagePath(1)).toBe("index.html");
+    expect(pagePath(2)).toBe("page/2.html");
+  });
+});
+
+describe("paginationLinks", () => {
+  it("links to the neighbouring pages", () => {
+    expect(paginationLinks(2, 3)).toEqual({
+      page: 2,
+      totalPages: 3,
+      prev: "index.html",
+      next: "page/3.html",
+    });
+  });
+
+  it("leaves out links past either end", () => {
+    expect(paginationLinks(1, 2).prev).toBeUndefined();
+    expect(paginationLinks(2, 2).next).toBeUndefined();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import path from "path";
+import {
+  applyLoadPost,
+  applyRenderPost,
+  loadPlugins,
+  markdownExtensions,
+  PluginError,
+  pluginTemplateData,
+  runBuildEnd,
+} from "../src/plugins.js";
+import type { BlogPlugin, PostSource } from "../src/plugins.js";
+import { DEFAULT_CONFIG } from "../src/config.js";
+import { makePost } from "./helpers.js";
+
+const FIXTURES = path.resolve("test/fixtures/plugins");
+
+function makeSource(): PostSource {
+  return {
+    slug: "hello",
+    meta: { title: "Hello", date: new Date("2024-01-15") },
+    content: "Hi {{name}}",
+  };
+}
+
+const post = makePost("hello");
+
+describe("loadPlugins", () => {
+  it("imports plugins from module paths, calling factories", async () => {
+    const [plugin] = await loadPlugins([path.join(FIXTURES, "shout.mjs")]);
+
+    expect(plugin.name).toBe("shout");
+    expect(await applyRenderPost([plugin], "<p>hi</p>", post)).toBe(
+      "<P>HI</P>"
+    );
+  });
+
+  it("rejects modules that don't export a plugin", async () => {
+    await expect(
+      loadPlugins([path.join(FIXTURES, "invalid.mjs")])
+    ).rejects.toThrow("default export must be a plugin");
+  });
+
+  it("reports modules that can't be found", async () => {
+    await expect(
+      loadPlugins([path.join(FIXTURES, "missing.mjs")])
+    ).rejects.toBeInstanceOf(PluginError);
+  });
+});
+
+describe("applyLoadPost", () => {
+  it("runs plugins in order, taking returned or mutated sources", async () => {
+    const plugins: BlogPlugin[] = [
+      {
+        name: "expand",
+        onLoadPost: (source) => ({
+          ...source,
+          content: source.content.replace("{{name}}", "there"),
+        }),
+      },
+      {
+        name: "retitle",
+        onLoadPost: (source) => {
+          source.meta.title += "!";
+        },
+      },
+    ];
+
+    expect(await applyLoadPost(plugins, makeSource())).toMatchObject({
+      meta: { title: "Hello!" },
+      content: "Hi there",
+    });
+  });
+
+  it("names the plugin when a hook throws", async () => {
+    const plugins: BlogPlugin[] = [
+      {
+        name: "broken",
+        onLoadPost: () => {
+          throw new Error("boom");
+        },
+      },
+    ];
+
+    await expect(applyLoadPost(plugins, makeSource())).rejects.toThrow(
+      'Plugin "broken": onLoadPost (hello) failed: boom'
+    );
+  });
+});
+
+describe("runBuildEnd", () => {
+  it("gives each plugin the build's pages and a way to write files", async () => {
+    const written: string[] = [];
+    const plugins: BlogPlugin[] = [
+      {
+        name: "humans",
+        onBuildEnd: (build) =>
+          build.writeFile("humans.txt", `${build.pages.length} pages`),
+      },
+    ];
+
+    await runBuildEnd(plugins, {
+      site: DEFAULT_CONFIG,
+      posts: [],
+      pages: ["index.html"],
+      writeFile: async (file, content) => {
+        written.push(`${file}: ${content}`);
+      },
+    });
+
+    expect(written).toEqual(["humans.txt: 1 pages"]);
+  });
+});
+
+describe("markdownExtensions and pluginTemplateData", () => {
+  it("combines what every plugin provides", () => {
+    const plugins: BlogPlugin[] = [
+      { name: "a", markdown: [{ gfm: true }], templateData: { x: 1, y: 1 } },
+      { name: "b", templateData: { y: 2 } },
+    ];
+
+    expect(markdownExtensions(plugins)).toEqual([{ gfm: true }]);
+    expect(pluginTemplateData(plugins)).toEqual({ x: 1, y: 2 });
+  });
+});
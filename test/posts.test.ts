@@ -2,12 +2,14 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import {
   parsePost,
   filterPostsForIndex,
+  filterPostsForMode,
   buildPost,
   Post,
 } from "../src/build.js";
 import { existsSync, mkdirSync, rmSync, copyFileSync } from "fs";
 import { readFileSync } from "fs";
 import { execSync } from "child_process";
+import { makePost } from "./helpers.js";
 
 describe("parsePost", () => {
   it("parses a valid non-draft post", async () => {
@@ -64,24 +66,13 @@ Content here.`;
 describe("filterPostsForIndex", () => {
   it("excludes draft posts from index", () => {
     const posts: Post[] = [
-      {
-        slug: "post-1",
-        meta: { title: "Post 1", date: new Date("2024-01-15") },
-        content: "",
-        html: "",
-      },
-      {
-        slug: "draft-1",
-        meta: { title: "Draft 1", date: new Date("2024-01-16"), draft: true },
-        content: "",
-        html: "",
-      },
-      {
-        slug: "post-2",
-        meta: { title: "Post 2", date: new Date("2024-01-17") },
-        content: "",
-        html: "",
-      },
+      makePost("post-1", { title: "Post 1", date: new Date("2024-01-15") }),
+      makePost("draft-1", {
+        title: "Draft 1",
+        date: new Date("2024-01-16"),
+        draft: true,
+      }),
+      makePost("post-2", { title: "Post 2", date: new Date("2024-01-17") }),
     ];
 
     const filtered = filterPostsForIndex(posts);
@@ -92,24 +83,13 @@ describe("filterPostsForIndex", () => {
 
   it("maintains newest-first sort order after filtering", () => {
     const posts: Post[] = [
-      {
-        slug: "old",
-        meta: { title: "Old", date: new Date("2024-01-01") },
-        content: "",
-        html: "",
-      },
-      {
-        slug: "draft",
-        meta: { title: "Draft", date: new Date("2024-01-15"), draft: true },
-        content: "",
-        html: "",
-      },
-      {
-        slug: "new",
-        meta: { title: "New", date: new Date("2024-01-10") },
-        content: "",
-        html: "",
-      },
+      makePost("old", { title: "Old", date: new Date("2024-01-01") }),
+      makePost("draft", {
+        title: "Draft",
+        date: new Date("2024-01-15"),
+        draft: true,
+      }),
+      makePost("new", { title: "New", date: new Date("2024-01-10") }),
     ];
 
     const filtered = filterPostsForIndex(posts);
@@ -119,6 +99,29 @@ describe("filterPostsForIndex", () => {
   });
 });
 
+describe("filterPostsForMode", () => {
+  const now = new Date("2024-02-01T12:00:00Z");
+  const posts: Post[] = [
+    makePost("published", { title: "Published", date: new Date("2024-01-15") }),
+    makePost("draft", {
+      title: "Draft",
+      date: new Date("2024-01-16"),
+      draft: true,
+    }),
+    makePost("scheduled", { title: "Scheduled", date: new Date("2024-03-01") }),
+  ];
+
+  it("excludes drafts and future-dated posts in production mode", () => {
+    const filtered = filterPostsForMode(posts, "production", now);
+
+    expect(filtered.map((p) => p.slug)).toEqual(["published"]);
+  });
+
+  it("keeps every post in preview mode", () => {
+    expect(filterPostsForMode(posts, "preview", now)).toHaveLength(3);
+  });
+});
+
 describe("buildPost", () => {
   const TEST_OUTPUT_DIR = "test-output";
 
@@ -139,17 +142,16 @@ describe("buildPost", () => {
 
   it("should replace all occurrences of {{title}} in template", async () => {
     // ARRANGE
-    const mockPost: Post = {
-      slug: "test-post",
-      meta: {
+    const mockPost = makePost(
+      "test-post",
+      {
         title: "Test Title",
         date: new Date("2026-01-17T12:00:00"),
         tags: ["test"],
         draft: false,
       },
-      content: "# Test content",
-      html: "<h1>Test content</h1>",
-    };
+      { content: "# Test content", html: "<h1>Test content</h1>" }
+    );
 
     const templateWithMultipleTitles = `<head><title>{{title}}</title></head>
 <body><h1>{{title}}</h1></body>`;
@@ -169,17 +171,16 @@ describe("buildPost", () => {
 
   it("should replace all occurrences of all template variables", async () => {
     // ARRANGE
-    const mockPost: Post = {
-      slug: "multi-var-post",
-      meta: {
+    const mockPost = makePost(
+      "multi-var-post",
+      {
         title: "Multi Variable Test",
         date: new Date("2026-01-17T12:00:00"),
         tags: ["test"],
         draft: false,
       },
-      content: "Test content",
-      html: "<p>Test content</p>",
-    };
+      { content: "Test content", html: "<p>Test content</p>" }
+    );
 
     const template = `<title>{{title}}</title>
 <h1>{{title}}</h1>
@@ -208,21 +209,20 @@ describe("buildPost", () => {
 
   it("should replace single occurrence of template variables", async () => {
     // ARRANGE
-    const mockPost: Post = {
-      slug: "simple-post",
-      meta: {
+    const mockPost = makePost(
+      "simple-post",
+      {
         title: "Simple Post",
         date: new Date("2026-01-17T12:00:00"),
         tags: [],
         draft: false,
       },
-      content: "Content",
-      html: "<p>Content</p>",
-    };
+      { content: "Content", html: "<p>Content</p>" }
+    );
 
     const simpleTemplate = `<title>{{title}}</title>
 <time>{{date}}</time>
-<div>{{content}}</div>`;
+<div>{{{content}}}</div>`;
 
     // ACT
     await buildPost(mockPost, simpleTemplate, TEST_OUTPUT_DIR);
@@ -236,6 +236,57 @@ describe("buildPost", () => {
     expect(generatedHtml).toContain("<time>January 17, 2026</time>");
     expect(generatedHtml).toContain("<div><p>Content</p></div>");
   });
+
+  it("marks drafts noindex with a banner in preview builds", async () => {
+    // ARRANGE
+    const draftPost = makePost("draft-preview", {
+      title: "Draft Preview",
+      date: new Date("2026-01-17T12:00:00"),
+      draft: true,
+    });
+
+    const template = `{{#if noindex}}<meta name="robots" content="noindex">{{/if}}
+{{#if draft}}<p class="draft-banner">Draft</p>{{/if}}`;
+
+    // ACT
+    await buildPost(draftPost, template, TEST_OUTPUT_DIR);
+
+    // ASSERT
+    const generatedHtml = readFileSync(
+      `${TEST_OUTPUT_DIR}/draft-preview.html`,
+      "utf-8"
+    );
+    expect(generatedHtml).toContain('<meta name="robots" content="noindex">');
+    expect(generatedHtml).toContain('<p class="draft-banner">Draft</p>');
+  });
+
+  it("escapes values unless the raw form is used", async () => {
+    // ARRANGE
+    const mockPost = makePost(
+      "escaped-post",
+      {
+        title: "Tom & <Jerry>",
+        date: new Date("2026-01-17T12:00:00"),
+      },
+      { content: "Content", html: "<p>Content</p>" }
+    );
+
+    const template = `<title>{{title}}</title>
+<div>{{content}}</div>
+<div>{{{content}}}</div>`;
+
+    // ACT
+    await buildPost(mockPost, template, TEST_OUTPUT_DIR);
+
+    // ASSERT
+    const generatedHtml = readFileSync(
+      `${TEST_OUTPUT_DIR}/escaped-post.html`,
+      "utf-8"
+    );
+    expect(generatedHtml).toContain("<title>Tom &amp; &lt;Jerry&gt;</title>");
+    expect(generatedHtml).toContain("<div>&lt;p&gt;Content&lt;/p&gt;</div>");
+    expect(generatedHtml).toContain("<div><p>Content</p></div>");
+  });
 });
 
 describe("build integration", () => {
@@ -303,4 +354,40 @@ describe("build integration", () => {
     // Draft post should NOT be in index
     expect(indexHtml).not.toContain("Test Draft Post");
   });
+
+  it("builds tag pages listing only non-draft posts", () => {
+    const tagHtml = readFileSync("docs/tags/test.html", "utf-8");
+
+    expect(tagHtml).toContain("Test Published Post");
+    expect(tagHtml).not.toContain("Test Draft Post");
+  });
+
+  it("builds a tag overview with post counts", () => {
+    const tagIndexHtml = readFileSync("docs/tags/index.html", "utf-8");
+
+    expect(tagIndexHtml).toContain('<a href="test.html">test</a>');
+    expect(tagIndexHtml).toContain("(1)");
+  });
+
+  it("links post pages to their tags", () => {
+    const postHtml = readFileSync("docs/test-published-post.html", "utf-8");
+
+    expect(postHtml).toContain('<a href="tags/test.html">test</a>');
+  });
+
+  it("writes RSS, Atom and JSON feeds without drafts", () => {
+    for (const file of ["docs/feed.xml", "docs/atom.xml", "docs/feed.json"]) {
+      const feed = readFileSync(file, "utf-8");
+      expect(feed).toContain("Test Published Post");
+      expect(feed).not.toContain("Test Draft Post");
+    }
+  });
+
+  it("re-renders posts whose output went missing", () => {
+    rmSync("docs/test-published-post.html");
+
+    execSync("pnpm run build", { stdio: "inherit" });
+
+    expect(existsSync("docs/test-published-post.html")).toBe(true);
+  }, 30_000);
 });
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { adjacentPosts, relatedPosts } from "../src/related.js";
+import { filterPostsForIndex } from "../src/build.js";
+import { makePost } from "./helpers.js";
+
+describe("adjacentPosts", () => {
+  const oldest = makePost("oldest", { date: new Date("2024-01-01") });
+  const draft = makePost("draft", {
+    date: new Date("2024-01-15"),
+    tags: [],
+    draft: true,
+  });
+  const middle = makePost("middle", { date: new Date("2024-02-01") });
+  const newest = makePost("newest", { date: new Date("2024-03-01") });
+  const posts = filterPostsForIndex([middle, draft, newest, oldest]);
+
+  it("links to the next older and newer posts", () => {
+    expect(adjacentPosts(middle, posts)).toEqual({
+      prev: oldest,
+      next: newest,
+    });
+  });
+
+  it("skips drafts and stops at either end", () => {
+    expect(adjacentPosts(oldest, posts)).toEqual({
+      prev: undefined,
+      next: middle,
+    });
+    expect(adjacentPosts(newest, posts).next).toBeUndefined();
+  });
+
+  it("gives posts outside the list no neighbours", () => {
+    expect(adjacentPosts(draft, posts)).toEqual({});
+  });
+});
+
+describe("relatedPosts", () => {
+  const post = makePost("post", {
+    date: new Date("2024-01-01"),
+    tags: ["TypeScript", "testing"],
+  });
+  const both = makePost("both", {
+    date: new Date("2024-01-02"),
+    tags: ["typescript", "Testing"],
+  });
+  const older = makePost("older", {
+    date: new Date("2023-06-01"),
+    tags: ["testing"],
+  });
+  const newer = makePost("newer", {
+    date: new Date("2024-05-01"),
+    tags: ["typescript"],
+  });
+  const unrelated = makePost("unrelated", {
+    date: new Date("2024-06-01"),
+    tags: ["cooking"],
+  });
+  const posts = filterPostsForIndex([post, both, older, newer, unrelated]);
+
+  it("ranks by shared tags, newest first on ties", () => {
+    expect(relatedPosts(post, posts, 5)).toEqual([both, newer, older]);
+  });
+
+  it("respects the limit", () => {
+    expect(relatedPosts(post, posts, 1)).toEqual([both]);
+    expect(relatedPosts(post, posts, 0)).toEqual([]);
+  });
+
+  it("returns nothing for posts without tags", () => {
+    expect(
+      relatedPosts(makePost("bare", { date: new Date("2024-01-01") }), posts, 3)
+    ).toEqual([]);
+  });
+});
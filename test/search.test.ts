@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { buildSearchIndex, tokenize } from "../src/search.js";
+import type { SearchIndex } from "../src/search.js";
+// @ts-expect-error - plain browser script without type declarations
+import * as client from "../templates/search.js";
+import { makePost } from "./helpers.js";
+
+describe("tokenize", () => {
+  it("lowercases and splits on anything but letters and digits", () => {
+    expect(tokenize("TypeScript's type-checker, v5!")).toEqual([
+      "typescript",
+      "s",
+      "type",
+      "checker",
+      "v5",
+    ]);
+  });
+
+  it("matches the browser script", () => {
+    const text = "Über café: <b>HTML</b> & 42";
+    expect(client.tokenize(text)).toEqual(tokenize(text));
+  });
+});
+
+describe("buildSearchIndex", () => {
+  it("stores plain text fields and unique body words", () => {
+    const post = makePost(
+      "a",
+      { title: "Hello", date: new Date("2024-01-15"), tags: ["intro"] },
+      {
+        html: "<p>First <strong>bold</strong> paragraph.</p>\n<p>Bold again, a second time.</p>\n",
+        excerpt: "<p>First <strong>bold</strong> paragraph.</p>\n",
+      }
+    );
+
+    expect(buildSearchIndex([post])).toEqual({
+      version: 1,
+      posts: [
+        {
+          url: "a.html",
+          title: "Hello",
+          date: "2024-01-15",
+          tags: ["intro"],
+          excerpt: "First bold paragraph.",
+          words: "first bold paragraph again second time",
+        },
+      ],
+    });
+  });
+});
+
+describe("search (browser script)", () => {
+  let index: SearchIndex;
+
+  function load() {
+    index = buildSearchIndex([
+      makePost(
+        "ts",
+        { title: "TypeScript tips", date: new Date("2024-01-01") },
+        { html: "<p>Generics and types.</p>" }
+      ),
+      makePost(
+        "py",
+        { title: "Python notes", date: new Date("2024-02-01") },
+        { html: "<p>Mentions typescript once.</p>" }
+      ),
+      makePost(
+        "css",
+        { title: "Styling", date: new Date("2024-03-01"), tags: ["css"] },
+        { html: "<p>Grid layouts.</p>" }
+      ),
+    ]);
+  }
+
+  it("ranks title matches above body matches", () => {
+    load();
+    const results = client.search(index, "typescript");
+
+    expect(results.map((post: { url: string }) => post.url)).toEqual([
+      "ts.html",
+      "py.html",
+    ]);
+  });
+
+  it("requires every query word to match", () => {
+    load();
+
+    expect(client.search(index, "typescript grid")).toEqual([]);
+    expect(
+      client
+        .search(index, "python typescript")
+        .map((post: { url: string }) => post.url)
+    ).toEqual(["py.html"]);
+  });
+
+  it("matches word prefixes and tags", () => {
+    load();
+
+    expect(client.search(index, "gener")[0].url).toBe("ts.html");
+    expect(client.search(index, "css")[0].url).toBe("css.html");
+  });
+
+  it("returns nothing for an empty query", () => {
+    load();
+
+    expect(client.search(index, "  ")).toEqual([]);
+  });
+});
+
+describe("highlight (browser script)", () => {
+  it("marks matches at the start of words", () => {
+    expect(client.highlight("Types and prototypes", "type")).toEqual([
+      { text: "Type", match: true },
+      { text: "s and prototypes", match: false },
+    ]);
+  });
+
+  it("returns the text unmarked without a query", () => {
+    expect(client.highlight("Text", "")).toEqual([
+      { text: "Text", match: false },
+    ]);
+  });
+});
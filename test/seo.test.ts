@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { postSeo, renderHead, siteHead, truncate } from "../src/seo.js";
+import type { Post, PostMeta } from "../src/build.js";
+import { DEFAULT_CONFIG } from "../src/config.js";
+import { makePost } from "./helpers.js";
+
+const site = {
+  ...DEFAULT_CONFIG,
+  title: "My Blog",
+  baseUrl: "https://example.com/blog/",
+};
+
+function helloWorld(meta: Partial<PostMeta> = {}): Post {
+  return makePost(
+    "hello-world",
+    { title: "Hello World", tags: ["intro"], ...meta },
+    { excerpt: "<p>First &amp; <em>best</em> post.</p>", wordCount: 3 }
+  );
+}
+
+describe("truncate", () => {
+  it("leaves short text alone", () => {
+    expect(truncate("Short text", 20)).toBe("Short text");
+  });
+
+  it("cuts at a word boundary and adds an ellipsis", () => {
+    expect(truncate("One two three, four five", 16)).toBe("One two three…");
+  });
+});
+
+describe("postSeo", () => {
+  it("falls back to the excerpt and the post URL", () => {
+    expect(postSeo(helloWorld(), site)).toMatchObject({
+      description: "First & best post.",
+      url: "https://example.com/blog/hello-world.html",
+      image: undefined,
+      siteName: "My Blog",
+    });
+  });
+
+  it("prefers frontmatter fields", () => {
+    const meta = postSeo(
+      helloWorld({
+        summary: "The summary",
+        description: "The description",
+        image: "images/cover.png",
+        author: "Sam",
+        canonical: "https://other.example/original",
+      }),
+      site
+    );
+
+    expect(meta).toMatchObject({
+      description: "The description",
+      url: "https://other.example/original",
+      image: "https://example.com/blog/images/cover.png",
+      author: "Sam",
+    });
+  });
+
+  it("uses the summary and the site author next", () => {
+    const meta = postSeo(helloWorld({ summary: "The summary" }), {
+      ...site,
+      author: "Site Author",
+    });
+
+    expect(meta.description).toBe("The summary");
+    expect(meta.author).toBe("Site Author");
+  });
+});
+
+describe("renderHead", () => {
+  it("renders description, canonical, Open Graph and Twitter tags", () => {
+    const head = renderHead(postSeo(helloWorld(), site));
+
+    expect(head).toContain(
+      '<meta name="description" content="First &amp; best post." />'
+    );
+    expect(head).toContain(
+      '<link rel="canonical" href="https://example.com/blog/hello-world.html" />'
+    );
+    expect(head).toContain(
+      '<meta property="og:title" content="Hello World" />'
+    );
+    expect(head).toContain('<meta property="og:locale" content="en_US" />');
+    expect(head).toContain('<meta property="article:tag" content="intro" />');
+    expect(head).toContain('<meta name="twitter:card" content="summary" />');
+    expect(head).not.toContain("og:image");
+  });
+
+  it("uses a large card when there is an image", () => {
+    const head = renderHead(
+      postSeo(helloWorld({ image: "https://cdn.example/cover.png" }), site)
+    );
+
+    expect(head).toContain(
+      '<meta property="og:image" content="https://cdn.example/cover.png" />'
+    );
+    expect(head).toContain(
+      '<meta name="twitter:card" content="summary_large_image" />'
+    );
+  });
+
+  it("embeds BlogPosting JSON-LD that can't close the script early", () => {
+    const head = renderHead(
+      postSeo(helloWorld({ title: "</script><b>", author: "Sam" }), site)
+    );
+    const json = head.match(
+      /<script type="application\/ld\+json">(.*)<\/script>/
+    )![1];
+
+    expect(json).not.toContain("</script>");
+    expect(JSON.parse(json)).toMatchObject({
+      "@type": "BlogPosting",
+      headline: "</script><b>",
+      datePublished: "2024-01-15T00:00:00.000Z",
+      author: { "@type": "Person", name: "Sam" },
+      keywords: "intro",
+    });
+  });
+});
+
+describe("siteHead", () => {
+  it("describes the site", () => {
+    expect(siteHead(site)).toBe(
+      '<meta name="description" content="Latest posts" />'
+    );
+  });
+});
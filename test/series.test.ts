@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { findSeries, groupPostsBySeries } from "../src/series.js";
+import { filterPostsForIndex } from "../src/build.js";
+import { makePost } from "./helpers.js";
+
+describe("groupPostsBySeries", () => {
+  it("orders parts by date when seriesOrder is missing", () => {
+    const posts = filterPostsForIndex([
+      makePost("part-2", {
+        date: new Date("2024-02-01"),
+        series: "Rust Basics",
+      }),
+      makePost("part-1", {
+        date: new Date("2024-01-01"),
+        series: "Rust Basics",
+      }),
+      makePost("other", { date: new Date("2024-01-15") }),
+    ]);
+
+    expect(groupPostsBySeries(posts)).toEqual([
+      {
+        name: "Rust Basics",
+        slug: "rust-basics",
+        posts: [posts[2], posts[0]],
+      },
+    ]);
+  });
+
+  it("puts seriesOrder ahead of dates", () => {
+    const [series] = groupPostsBySeries([
+      makePost("intro", {
+        date: new Date("2024-03-01"),
+        series: "Guide",
+        seriesOrder: 1,
+      }),
+      makePost("unordered", { date: new Date("2024-01-01"), series: "Guide" }),
+      makePost("second", {
+        date: new Date("2024-01-15"),
+        series: "Guide",
+        seriesOrder: 2,
+      }),
+    ]);
+
+    expect(series.posts.map((post) => post.slug)).toEqual([
+      "intro",
+      "second",
+      "unordered",
+    ]);
+  });
+
+  it("merges names that differ only by case", () => {
+    const groups = groupPostsBySeries([
+      makePost("a", { date: new Date("2024-01-01"), series: "Rust Basics" }),
+      makePost("b", { date: new Date("2024-01-02"), series: "rust basics" }),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].posts).toHaveLength(2);
+  });
+
+  it("leaves out drafts filtered by filterPostsForIndex", () => {
+    const [series] = groupPostsBySeries(
+      filterPostsForIndex([
+        makePost("a", { date: new Date("2024-01-01"), series: "Guide" }),
+        makePost("b", {
+          date: new Date("2024-01-02"),
+          series: "Guide",
+          draft: true,
+        }),
+      ])
+    );
+
+    expect(series.posts.map((post) => post.slug)).toEqual(["a"]);
+  });
+});
+
+describe("findSeries", () => {
+  it("returns the series a post belongs to", () => {
+    const a = makePost("a", { date: new Date("2024-01-01"), series: "Guide" });
+    const b = makePost("b", { date: new Date("2024-01-02"), series: "Guide" });
+    const other = makePost("other", {
+      date: new Date("2024-01-03"),
+      series: "Other",
+    });
+
+    expect(findSeries(b, [a, b, other])?.posts).toEqual([a, b]);
+    expect(
+      findSeries(makePost("c", { date: new Date("2024-01-01") }), [a, b])
+    ).toBeUndefined();
+  });
+
+  it("ignores posts that aren't in the list", () => {
+    const draft = makePost("draft", {
+      date: new Date("2024-01-01"),
+      series: "Guide",
+    });
+
+    expect(findSeries(draft, [])).toBeUndefined();
+  });
+});
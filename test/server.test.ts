@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  injectLiveReload,
+  LIVE_RELOAD_PATH,
+  startDevServer,
+  swapStylesheet,
+} from "../src/server.js";
+import type { DevServer } from "../src/server.js";
+
+describe("swapStylesheet", () => {
+  it("points a fingerprinted stylesheet at its new build", () => {
+    const href = swapStylesheet(
+      "http://localhost:3000/styles.1a2b3c4d.css",
+      "styles.5e6f7a8b.css"
+    );
+    expect(href).toMatch(
+      /^http:\/\/localhost:3000\/styles\.5e6f7a8b\.css\?livereload=\d+$/
+    );
+  });
+
+  it("only busts the cache of other stylesheets", () => {
+    const href = swapStylesheet(
+      "http://localhost:3000/vendor/prism.css?v=2",
+      "styles.5e6f7a8b.css"
+    );
+    expect(href).toMatch(
+      /^http:\/\/localhost:3000\/vendor\/prism\.css\?v=2&livereload=\d+$/
+    );
+    expect(swapStylesheet("http://localhost:3000/styles.css")).toMatch(
+      /\/styles\.css\?livereload=\d+$/
+    );
+  });
+
+  it("swaps the stylesheets of a page on a css event", () => {
+    const script = injectLiveReload("<body></body>").match(
+      /<script>([\s\S]*)<\/script>/
+    )![1];
+    const listeners = new Map<string, (event: { data: string }) => void>();
+    const link = { href: "http://localhost:3000/styles.1a2b3c4d.css" };
+    const document = {
+      getElementById: () => null,
+      querySelectorAll: () => [link],
+    };
+    class EventSource {
+      addEventListener(
+        type: string,
+        listener: (event: { data: string }) => void
+      ) {
+        listeners.set(type, listener);
+      }
+    }
+    new Function("document", "EventSource", "location", script)(
+      document,
+      EventSource,
+      {}
+    );
+
+    listeners.get("css")!({
+      data: JSON.stringify({ stylesheet: "styles.5e6f7a8b.css" }),
+    });
+    expect(link.href).toMatch(/\/styles\.5e6f7a8b\.css\?livereload=\d+$/);
+  });
+});
+
+describe("injectLiveReload", () => {
+  it("adds the client script before </body>", () => {
+    const html = injectLiveReload("<html><body><p>Hi</p></body></html>");
+
+    expect(html).toMatch(/<p>Hi<\/p><script>[\s\S]*<\/script>\n<\/body>/);
+    expect(html).toContain(LIVE_RELOAD_PATH);
+  });
+
+  it("appends the script when there is no </body>", () => {
+    expect(injectLiveReload("<p>Hi</p>")).toMatch(/^<p>Hi<\/p><script>/);
+  });
+});
+
+describe("startDevServer", () => {
+  let root: string;
+  let server: DevServer;
+
+  beforeEach(async () => {
+    root = mkdtempSync(path.join(tmpdir(), "blog-server-"));
+    mkdirSync(path.join(root, "tags"));
+    writeFileSync(path.join(root, "index.html"), "<body>Home</body>");
+    writeFileSync(path.join(root, "tags", "index.html"), "<body>Tags</body>");
+    writeFileSync(path.join(root, "styles.css"), "body {}");
+    server = await startDevServer({ root, port: 0 });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("serves HTML with the live reload client injected", async () => {
+    const res = await fetch(`${server.url}/`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/html");
+    const body = await res.text();
+    expect(body).toContain("Home");
+    expect(body).toContain("EventSource");
+  });
+
+  it("serves directory indexes and other files untouched", async () => {
+    expect(await (await fetch(`${server.url}/tags/`)).text()).toContain("Tags");
+
+    const css = await fetch(`${server.url}/styles.css`);
+    expect(css.headers.get("content-type")).toContain("text/css");
+    expect(await css.text()).toBe("body {}");
+  });
+
+  it("returns 404 for missing files and paths outside the root", async () => {
+    expect((await fetch(`${server.url}/missing.html`)).status).toBe(404);
+    expect((await fetch(`${server.url}/..%2f..%2fetc%2fpasswd`)).status).toBe(
+      404
+    );
+  });
+
+  it("pushes reload and build error events to connected clients", async () => {
+    const controller = new AbortController();
+    const res = await fetch(`${server.url}${LIVE_RELOAD_PATH}`, {
+      signal: controller.signal,
+    });
+    expect(res.headers.get("content-type")).toBe("text/event-stream");
+
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    const readUntil = async (text: string) => {
+      let received = "";
+      while (!received.includes(text)) {
+        const { value } = await reader.read();
+        received += decoder.decode(value);
+      }
+      return received;
+    };
+
+    await readUntil("retry:");
+    server.showError(new Error("posts/a.md:1: error: title: is required"));
+    expect(await readUntil("event: build-error")).toContain(
+      "title: is required"
+    );
+
+    server.reloadCss("styles.5e6f7a8b.css");
+    expect(await readUntil("event: css")).toContain(
+      '"stylesheet":"styles.5e6f7a8b.css"'
+    );
+
+    server.reload();
+    expect(await readUntil("event: reload")).toContain("event: reload");
+
+    controller.abort();
+  });
+});
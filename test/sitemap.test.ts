@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  newestLastmod,
+  postLastmod,
+  renderRobots,
+  renderSitemap,
+  robotsNote,
+} from "../src/sitemap.js";
+import { makePost } from "./helpers.js";
+
+describe("postLastmod", () => {
+  it("prefers the updated date", () => {
+    expect(
+      postLastmod(makePost("a", { date: new Date("2024-01-15") }))
+    ).toEqual(new Date("2024-01-15"));
+    expect(
+      postLastmod(
+        makePost("a", {
+          date: new Date("2024-01-15"),
+          updated: new Date("2024-03-01"),
+        })
+      )
+    ).toEqual(new Date("2024-03-01"));
+  });
+});
+
+describe("newestLastmod", () => {
+  it("returns the most recent change", () => {
+    const posts = [
+      makePost("new", { date: new Date("2024-02-01") }),
+      makePost("old", {
+        date: new Date("2024-01-01"),
+        updated: new Date("2024-04-01"),
+      }),
+    ];
+
+    expect(newestLastmod(posts)).toEqual(new Date("2024-04-01"));
+    expect(newestLastmod([])).toBeUndefined();
+  });
+});
+
+describe("renderSitemap", () => {
+  it("lists absolute URLs with their last modification date", () => {
+    const xml = renderSitemap(
+      [
+        { url: "index.html", lastmod: new Date("2024-01-15T10:00:00Z") },
+        { url: "tags/c&d.html" },
+      ],
+      "https://example.com/blog/"
+    );
+
+    expect(xml).toContain(
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">'
+    );
+    expect(xml).toContain(
+      "<loc>https://example.com/blog/index.html</loc>\n    <lastmod>2024-01-15</lastmod>"
+    );
+    expect(xml).toContain(
+      "<loc>https://example.com/blog/tags/c&amp;d.html</loc>\n  </url>"
+    );
+  });
+});
+
+describe("renderRobots", () => {
+  it("points crawlers to the sitemap", () => {
+    expect(renderRobots("https://example.com/blog/")).toBe(
+      "User-agent: *\nAllow: /\n\nSitemap: https://example.com/blog/sitemap.xml\n"
+    );
+  });
+});
+
+describe("robotsNote", () => {
+  it("notes when robots.txt isn't at the root of the host", () => {
+    expect(robotsNote("https://example.com/")).toBeUndefined();
+    expect(robotsNote("https://example.com/blog/")).toBe(
+      'robots.txt: crawlers only read https://example.com/robots.txt, so add "Sitemap: https://example.com/blog/sitemap.xml" there'
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  groupPostsByTag,
+  slugCollisions,
+  tagSlug,
+  tagWeight,
+} from "../src/tags.js";
+import { filterPostsForIndex } from "../src/build.js";
+import { makePost } from "./helpers.js";
+
+describe("tagSlug", () => {
+  it("lowercases and replaces unsafe characters with dashes", () => {
+    expect(tagSlug("Type Script")).toBe("type-script");
+    expect(tagSlug("C++")).toBe("c");
+    expect(tagSlug("  node.js ")).toBe("node-js");
+  });
+
+  it("keeps letters and digits in any script", () => {
+    expect(tagSlug("日本語")).toBe("日本語");
+    expect(tagSlug("Café Crème")).toBe("café-crème");
+    expect(tagSlug("++")).toBe("");
+  });
+});
+
+describe("slugCollisions", () => {
+  it("finds names that share a slug", () => {
+    const collisions = slugCollisions(["C++", "C#", "Go", "c++"], tagSlug);
+
+    expect([...collisions]).toEqual([["c", ["C#", "C++"]]]);
+  });
+
+  it("ignores names that differ only by case", () => {
+    expect(slugCollisions(["Fun", "fun", " FUN"], tagSlug).size).toBe(0);
+  });
+});
+
+describe("groupPostsByTag", () => {
+  it("groups posts by tag, newest first within each tag", () => {
+    const posts = filterPostsForIndex([
+      makePost("old", { date: new Date("2024-01-01"), tags: ["intro", "fun"] }),
+      makePost("new", { date: new Date("2024-02-01"), tags: ["fun"] }),
+    ]);
+
+    const tags = groupPostsByTag(posts);
+
+    expect(tags.map((tag) => tag.name)).toEqual(["fun", "intro"]);
+    expect(tags[0].posts.map((post) => post.slug)).toEqual(["new", "old"]);
+    expect(tags[1].posts.map((post) => post.slug)).toEqual(["old"]);
+  });
+
+  it("merges tags that differ only by case", () => {
+    const tags = groupPostsByTag([
+      makePost("a", { date: new Date("2024-01-01"), tags: ["Fun"] }),
+      makePost("b", { date: new Date("2024-01-02"), tags: ["fun"] }),
+    ]);
+
+    expect(tags).toHaveLength(1);
+    expect(tags[0].slug).toBe("fun");
+    expect(tags[0].posts).toHaveLength(2);
+  });
+
+  it("ignores posts without tags", () => {
+    expect(
+      groupPostsByTag([makePost("a", { date: new Date("2024-01-01") })])
+    ).toEqual([]);
+  });
+});
+
+describe("tagWeight", () => {
+  it("scales counts onto a 1-5 range", () => {
+    expect(tagWeight(1, 1)).toBe(1);
+    expect(tagWeight(1, 9)).toBe(1);
+    expect(tagWeight(5, 9)).toBe(3);
+    expect(tagWeight(9, 9)).toBe(5);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { renderTemplate, TemplateError } from "../src/template.js";
+import type { TemplateLibrary } from "../src/template.js";
+
+describe("renderTemplate", () => {
+  it("escapes variables by default and supports a raw form", () => {
+    const html = renderTemplate("{{value}} {{{value}}} {{& value}}", {
+      value: "<b>&</b>",
+    });
+
+    expect(html).toBe("&lt;b&gt;&amp;&lt;/b&gt; <b>&</b> <b>&</b>");
+  });
+
+  it("resolves dotted paths and renders missing values as empty", () => {
+    const html = renderTemplate("[{{post.title}}][{{post.missing}}]", {
+      post: { title: "Hello" },
+    });
+
+    expect(html).toBe("[Hello][]");
+  });
+
+  it("renders conditionals with else branches", () => {
+    const template = "{{#if tags}}has tags{{else}}no tags{{/if}}";
+
+    expect(renderTemplate(template, { tags: ["a"] })).toBe("has tags");
+    expect(renderTemplate(template, { tags: [] })).toBe("no tags");
+    expect(renderTemplate("{{#unless draft}}live{{/unless}}", {})).toBe("live");
+  });
+
+  it("loops over arrays with item scope and loop variables", () => {
+    const html = renderTemplate(
+      "{{#each posts}}{{@index}}:{{title}}@{{root}}{{#unless @last}},{{/unless}}{{/each}}",
+      { root: "../", posts: [{ title: "A" }, { title: "B" }] }
+    );
+
+    expect(html).toBe("0:A@../,1:B@../");
+  });
+
+  it("renders the else branch of an empty loop", () => {
+    const html = renderTemplate("{{#each posts}}x{{else}}none{{/each}}", {
+      posts: [],
+    });
+
+    expect(html).toBe("none");
+  });
+
+  it("supports {{this}} for arrays of strings", () => {
+    expect(
+      renderTemplate("{{#each xs}}<{{this}}>{{/each}}", { xs: ["a"] })
+    ).toBe("<a>");
+  });
+
+  it("includes partials and wraps pages in layouts", () => {
+    const library: TemplateLibrary = {
+      partials: { header: "<header>{{site}}</header>" },
+      layouts: {
+        base: "<html>{{> header}}<title>{{title}}</title>{{{body}}}</html>",
+      },
+    };
+
+    const html = renderTemplate(
+      "{{< base}}\n<main>{{title}}</main>",
+      { site: "Blog", title: "Post" },
+      library
+    );
+
+    expect(html).toBe(
+      "<html><header>Blog</header><title>Post</title><main>Post</main></html>"
+    );
+  });
+
+  it("ignores comments", () => {
+    expect(renderTemplate("a{{! note }}b", {})).toBe("ab");
+  });
+
+  it("reports unclosed blocks with their line number", () => {
+    expect(() =>
+      renderTemplate("line one\n{{#each posts}}", {}, undefined, "index")
+    ).toThrow(new TemplateError("index", 2, "unclosed {{#each}} block"));
+  });
+
+  it("reports mismatched closing tags and unknown partials", () => {
+    expect(() => renderTemplate("{{#if a}}{{/each}}", {})).toThrow(
+      TemplateError
+    );
+    expect(() => renderTemplate("{{> missing}}", {})).toThrow(
+      'unknown partial "missing"'
+    );
+  });
+
+  it("drops lines that only hold a block tag", () => {
+    const html = renderTemplate(
+      "<ul>\n  {{#each xs}}\n  <li>{{this}}</li>\n  {{/each}}\n</ul>",
+      { xs: ["a", "b"] }
+    );
+
+    expect(html).toBe("<ul>\n  <li>a</li>\n  <li>b</li>\n</ul>");
+  });
+});
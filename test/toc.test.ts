@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { parsePost } from "../src/build.js";
+import { buildToc, headingSlug } from "../src/toc.js";
+
+function post(body: string, frontmatter = "") {
+  return parsePost(
+    "toc.md",
+    `---\ntitle: Test\ndate: 2024-01-15\n${frontmatter}---\n\n${body}`
+  );
+}
+
+describe("headingSlug", () => {
+  it("lowercases and joins words with dashes", () => {
+    expect(headingSlug("Circle One – The Fire of Commitment")).toBe(
+      "circle-one-the-fire-of-commitment"
+    );
+  });
+
+  it("keeps non-English letters", () => {
+    expect(headingSlug("Über Café")).toBe("über-café");
+  });
+
+  it("falls back when nothing is left", () => {
+    expect(headingSlug("!!!")).toBe("section");
+  });
+});
+
+describe("heading ids", () => {
+  it("gives every heading an id and a permalink anchor", async () => {
+    const result = await post("## Getting `started` & more\n");
+
+    expect(result?.html).toBe(
+      '<h2 id="getting-started-more">Getting <code>started</code> &amp; more <a class="heading-anchor" href="#getting-started-more" aria-label="Permalink to “Getting started &amp; more”">#</a></h2>\n'
+    );
+  });
+
+  it("numbers repeated headings to keep ids unique", async () => {
+    const result = await post("## Setup\n\n## Setup\n\n## Setup\n");
+
+    expect(result?.html).toContain('id="setup"');
+    expect(result?.html).toContain('id="setup-1"');
+    expect(result?.html).toContain('id="setup-2"');
+  });
+
+  it("starts numbering afresh for each post", async () => {
+    await post("## Setup\n");
+    const result = await post("## Setup\n");
+
+    expect(result?.html).toContain('id="setup"');
+  });
+});
+
+describe("buildToc", () => {
+  it("nests headings under the preceding higher level", () => {
+    const toc = buildToc([
+      { level: 2, text: "A", id: "a" },
+      { level: 3, text: "A.1", id: "a-1" },
+      { level: 4, text: "A.1.a", id: "a-1-a" },
+      { level: 3, text: "A.2", id: "a-2" },
+      { level: 2, text: "B", id: "b" },
+    ]);
+
+    expect(toc.map((entry) => entry.id)).toEqual(["a", "b"]);
+    expect(toc[0].children.map((entry) => entry.id)).toEqual(["a-1", "a-2"]);
+    expect(toc[0].children[0].children[0].id).toBe("a-1-a");
+  });
+
+  it("leaves out h1 headings", () => {
+    expect(buildToc([{ level: 1, text: "Title", id: "title" }])).toEqual([]);
+  });
+
+  it("keeps headings that skip a level", () => {
+    const toc = buildToc([{ level: 3, text: "Deep", id: "deep" }]);
+
+    expect(toc.map((entry) => entry.id)).toEqual(["deep"]);
+  });
+});
+
+describe("parsePost toc", () => {
+  it("builds the table of contents from the headings", async () => {
+    const result = await post("## One\n\n### One A\n\n## Two\n");
+
+    expect(result?.toc).toEqual([
+      {
+        level: 2,
+        text: "One",
+        id: "one",
+        children: [{ level: 3, text: "One A", id: "one-a", children: [] }],
+      },
+      { level: 2, text: "Two", id: "two", children: [] },
+    ]);
+  });
+
+  it("is empty when the post sets toc: false", async () => {
+    const result = await post("## One\n", "toc: false\n");
+
+    expect(result?.toc).toEqual([]);
+    expect(result?.html).toContain('id="one"');
+  });
+});
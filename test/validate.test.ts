@@ -0,0 +1,363 @@
+import { describe, it, expect } from "vitest";
+import matter from "gray-matter";
+import {
+  formatDiagnostic,
+  hasErrors,
+  validateFrontmatter,
+  validatePageFrontmatter,
+  validateSlugs,
+  ValidationError,
+  yamlErrorDiagnostic,
+} from "../src/validate.js";
+
+function validate(content: string) {
+  return validateFrontmatter(
+    "posts/test.md",
+    content,
+    matter(content).data as Record<string, unknown>
+  );
+}
+
+describe("validateFrontmatter", () => {
+  it("accepts a valid post", () => {
+    const diagnostics = validate(`---
+title: "Hello"
+date: 2024-01-15
+tags: [intro]
+draft: false
+summary: A short summary
+---
+
+Body`);
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("reports a missing title as an error on the opening line", () => {
+    const diagnostics = validate(`---
+date: 2024-01-15
+---
+`);
+
+    expect(diagnostics).toEqual([
+      {
+        file: "posts/test.md",
+        field: "title",
+        line: 1,
+        severity: "error",
+        message: "is required",
+      },
+    ]);
+  });
+
+  it("reports an unparseable date with its line number", () => {
+    const diagnostics = validate(`---
+title: "Hello"
+date: sometime soon
+---
+`);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      field: "date",
+      line: 3,
+      severity: "error",
+    });
+  });
+
+  it("rejects tags written as a string instead of a list", () => {
+    const diagnostics = validate(`---
+title: "Hello"
+date: 2024-01-15
+tags: intro
+---
+`);
+
+    expect(hasErrors(diagnostics)).toBe(true);
+    expect(formatDiagnostic(diagnostics[0])).toBe(
+      "posts/test.md:4: error: tags: must be a list, e.g. [intro], got string"
+    );
+  });
+
+  it("rejects tags and series without a usable URL", () => {
+    const diagnostics = validate(`---
+title: "Hello"
+date: 2024-01-15
+tags: [intro, "++", Index]
+series: "!!"
+---
+`);
+
+    expect(diagnostics.map(formatDiagnostic)).toEqual([
+      'posts/test.md:4: error: tags: "++" needs a letter or digit for its URL',
+      `posts/test.md:4: error: tags: "Index" would replace the tag overview, tags/index.html`,
+      'posts/test.md:5: error: series: "!!" needs a letter or digit for its URL',
+    ]);
+  });
+
+  it("rejects a non-boolean draft flag", () => {
+    const diagnostics = validate(`---
+title: "Hello"
+date: 2024-01-15
+draft: "yes"
+---
+`);
+
+    expect(diagnostics[0]).toMatchObject({ field: "draft", line: 4 });
+    expect(hasErrors(diagnostics)).toBe(true);
+  });
+
+  it("rejects a summary that isn't text", () => {
+    const diagnostics = validate(`---
+title: "Hello"
+date: 2024-01-15
+summary: [one, two]
+---
+`);
+
+    expect(diagnostics[0]).toMatchObject({ field: "summary", line: 4 });
+    expect(hasErrors(diagnostics)).toBe(true);
+  });
+
+  it("checks series fields", () => {
+    const diagnostics = validate(`---
+title: "Hello"
+date: 2024-01-15
+series: ""
+seriesOrder: first
+---
+`);
+
+    expect(diagnostics.map((d) => d.field)).toEqual(["series", "seriesOrder"]);
+    expect(hasErrors(diagnostics)).toBe(true);
+  });
+
+  it("warns about a seriesOrder without a series", () => {
+    const diagnostics = validate(`---
+title: "Hello"
+date: 2024-01-15
+seriesOrder: 2
+---
+`);
+
+    expect(diagnostics).toMatchObject([
+      { field: "seriesOrder", severity: "warning", line: 4 },
+    ]);
+  });
+
+  it("checks SEO fields", () => {
+    const diagnostics = validate(`---
+title: "Hello"
+date: 2024-01-15
+description: A post about things
+image: 42
+canonical: /elsewhere.html
+---
+`);
+
+    expect(diagnostics).toMatchObject([
+      { field: "image", severity: "error", line: 5 },
+      { field: "canonical", severity: "error", line: 6 },
+    ]);
+  });
+
+  it("checks the updated date", () => {
+    const invalid = validate(`---
+title: "Hello"
+date: 2024-01-15
+updated: someday
+---
+`);
+    const early = validate(`---
+title: "Hello"
+date: 2024-01-15
+updated: 2024-01-01
+---
+`);
+
+    expect(invalid).toMatchObject([
+      { field: "updated", severity: "error", line: 4 },
+    ]);
+    expect(early).toMatchObject([
+      { field: "updated", severity: "warning", line: 4 },
+    ]);
+  });
+
+  it("warns about unknown fields without failing", () => {
+    const diagnostics = validate(`---
+title: "Hello"
+date: 2024-01-15
+tittle: "Typo"
+---
+`);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      field: "tittle",
+      line: 4,
+      severity: "warning",
+    });
+    expect(hasErrors(diagnostics)).toBe(false);
+  });
+
+  it("reports posts without frontmatter", () => {
+    const diagnostics = validate("Just some text");
+
+    expect(diagnostics[0]).toMatchObject({
+      field: "frontmatter",
+      severity: "error",
+    });
+  });
+});
+
+describe("validateSlugs", () => {
+  function source(file: string, fileContent: string) {
+    return {
+      file,
+      fileContent,
+      data: matter(fileContent).data as Record<string, unknown>,
+    };
+  }
+
+  it("reports differently named tags and series with the same slug", () => {
+    const diagnostics = validateSlugs([
+      source(
+        "posts/a.md",
+        `---
+title: A
+date: 2024-01-15
+tags: [C++, intro]
+series: Rust Basics
+---
+`
+      ),
+      source(
+        "posts/b.md",
+        `---
+title: B
+date: 2024-01-16
+tags: [C#, Intro]
+series: rust-basics
+---
+`
+      ),
+    ]);
+
+    expect(diagnostics.map(formatDiagnostic)).toEqual([
+      'posts/a.md:4: error: tags: "C#", "C++" share the URL slug c',
+      'posts/b.md:4: error: tags: "C#", "C++" share the URL slug c',
+      'posts/a.md:5: error: series: "Rust Basics", "rust-basics" share the URL slug rust-basics',
+      'posts/b.md:5: error: series: "Rust Basics", "rust-basics" share the URL slug rust-basics',
+    ]);
+  });
+});
+
+describe("validatePageFrontmatter", () => {
+  function validatePage(content: string) {
+    return validatePageFrontmatter(
+      "pages/about.md",
+      content,
+      matter(content).data as Record<string, unknown>,
+      new Set(["page", "wide"])
+    );
+  }
+
+  it("accepts a page without a date", () => {
+    expect(
+      validatePage(`---
+title: About
+nav: 1
+navTitle: Me
+layout: wide
+description: Who writes this
+updated: 2024-03-01
+---
+`)
+    ).toEqual([]);
+  });
+
+  it("checks the layout and nav fields", () => {
+    const diagnostics = validatePage(`---
+title: About
+layout: ../post
+nav: first
+---
+`);
+
+    expect(diagnostics.map(formatDiagnostic)).toEqual([
+      "pages/about.md:3: error: layout: must be a template name, e.g. wide for templates/wide.html",
+      "pages/about.md:4: error: nav: must be a number, got string",
+    ]);
+    expect(
+      validatePage("---\ntitle: About\nlayout: missing\n---\n").map(
+        formatDiagnostic
+      )
+    ).toEqual([
+      "pages/about.md:3: error: layout: no template named missing.html",
+    ]);
+  });
+
+  it("warns about post-only fields and navTitle without nav", () => {
+    const diagnostics = validatePage(`---
+title: About
+date: 2024-01-15
+navTitle: Me
+---
+`);
+
+    expect(diagnostics.map(formatDiagnostic)).toEqual([
+      "pages/about.md:4: warning: navTitle: has no effect without nav",
+      "pages/about.md:3: warning: date: is not a known page frontmatter field",
+    ]);
+  });
+});
+
+describe("yamlErrorDiagnostic", () => {
+  it("turns a YAML error into a diagnostic on its line", () => {
+    let error: unknown;
+    try {
+      matter("---\ntitle: Hi\n  bad: indent\n---\n");
+    } catch (thrown) {
+      error = thrown;
+    }
+
+    expect(yamlErrorDiagnostic("posts/a.md", error)).toEqual({
+      file: "posts/a.md",
+      field: "frontmatter",
+      line: 3,
+      severity: "error",
+      message: "invalid YAML: bad indentation of a mapping entry",
+    });
+  });
+
+  it("ignores other errors", () => {
+    expect(yamlErrorDiagnostic("posts/a.md", new Error("boom"))).toBe(
+      undefined
+    );
+  });
+});
+
+describe("ValidationError", () => {
+  it("lists only errors in its message", () => {
+    const error = new ValidationError([
+      {
+        file: "posts/a.md",
+        field: "title",
+        line: 1,
+        severity: "error",
+        message: "is required",
+      },
+      {
+        file: "posts/b.md",
+        field: "extra",
+        line: 5,
+        severity: "warning",
+        message: "is not a known frontmatter field",
+      },
+    ]);
+
+    expect(error.message).toContain("posts/a.md:1: error: title: is required");
+    expect(error.message).not.toContain("posts/b.md");
+    expect(error.diagnostics).toHaveLength(2);
+  });
+});